@@ -0,0 +1,117 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { SlidersHorizontal } from "lucide-react";
+import { COLUMN_TYPE_LABELS } from "@/lib/columnTypes";
+import { ColumnFilter, ColumnFilters, FILTER_KIND_BY_TYPE, isFilterActive } from "@/lib/filters";
+import { MetricDefinition } from "@/lib/schema";
+
+interface AdvancedFiltersProps {
+  metrics: MetricDefinition[];
+  filters: ColumnFilters;
+  onChange: (field: string, filter: ColumnFilter) => void;
+  onClear: (fields: string[]) => void;
+}
+
+const parseBound = (value: string): number | undefined => {
+  const number = parseFloat(value.replace(",", "."));
+  return Number.isNaN(number) ? undefined : number;
+};
+
+// Time dimension, numeric, date and text columns; categorical ones have their own select next to the search field
+export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({ metrics, filters, onChange, onClear }) => {
+  const filterable = metrics.filter((metric) => FILTER_KIND_BY_TYPE[metric.type] !== "category");
+  const activeCount = filterable.filter((metric) => isFilterActive(filters[metric.field])).length;
+
+  if (filterable.length === 0) return null;
+
+  const widget = (metric: MetricDefinition) => {
+    const kind = FILTER_KIND_BY_TYPE[metric.type];
+    const filter = filters[metric.field];
+
+    if (kind === "range") {
+      const range = filter?.kind === "range" ? filter : { kind: "range" as const };
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="number"
+            placeholder="Min"
+            value={range.min ?? ""}
+            onChange={(event) => onChange(metric.field, { ...range, min: parseBound(event.target.value) })}
+          />
+          <Input
+            type="number"
+            placeholder="Max"
+            value={range.max ?? ""}
+            onChange={(event) => onChange(metric.field, { ...range, max: parseBound(event.target.value) })}
+          />
+        </div>
+      );
+    }
+
+    if (kind === "period") {
+      const period = filter?.kind === "period" ? filter : { kind: "period" as const };
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            placeholder="Du (AAAA ou AAAA-MM-JJ)"
+            value={period.from ?? ""}
+            onChange={(event) => onChange(metric.field, { ...period, from: event.target.value.trim() || undefined })}
+          />
+          <Input
+            placeholder="Au (AAAA ou AAAA-MM-JJ)"
+            value={period.to ?? ""}
+            onChange={(event) => onChange(metric.field, { ...period, to: event.target.value.trim() || undefined })}
+          />
+        </div>
+      );
+    }
+
+    return (
+      <Input
+        placeholder="Contient…"
+        value={filter?.kind === "text" ? filter.query : ""}
+        onChange={(event) => onChange(metric.field, { kind: "text", query: event.target.value })}
+      />
+    );
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Filtres avancés
+          {activeCount > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {activeCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 space-y-4 max-h-[70vh] overflow-y-auto">
+        {filterable.map((metric) => (
+          <div key={metric.field} className="space-y-2">
+            <Label className="flex items-center justify-between">
+              {metric.name}
+              <span className="text-xs font-normal text-muted-foreground">{COLUMN_TYPE_LABELS[metric.type]}</span>
+            </Label>
+            {widget(metric)}
+          </div>
+        ))}
+        <div className="flex justify-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={activeCount === 0}
+            onClick={() => onClear(filterable.map((metric) => metric.field))}
+          >
+            Effacer ces filtres
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
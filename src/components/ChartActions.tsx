@@ -0,0 +1,83 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Copy, FileImage, FileCode, MoreHorizontal } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { downloadBlob, exportFileName } from "@/lib/export";
+import { chartImage, readChart, serializeSvg, svgToPng } from "@/lib/svg";
+
+interface ChartActionsProps {
+  // Source and filters, printed under the chart
+  caption: string[];
+}
+
+type ChartFormat = "svg" | "png" | "clipboard";
+
+// Action menu of a chart card: the chart is read back from the card it sits in
+export const ChartActions: React.FC<ChartActionsProps> = ({ caption }) => {
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const { toast } = useToast();
+
+  const handleExport = async (format: ChartFormat) => {
+    // Set once the image is drawn: a failure after that comes from the download or the clipboard
+    let drawn = false;
+
+    try {
+      const card = triggerRef.current?.closest("[data-chart-card]");
+      const chart = card ? readChart(card) : undefined;
+      if (!chart) throw new Error("Graphique introuvable");
+      const image = chartImage(chart, caption);
+      drawn = true;
+
+      if (format === "svg") {
+        downloadBlob(new Blob([serializeSvg(image)], { type: "image/svg+xml;charset=utf-8" }), exportFileName(chart.title, "svg"));
+      } else if (format === "png") {
+        downloadBlob(await svgToPng(image), exportFileName(chart.title, "png"));
+      } else {
+        // The promise keeps the user gesture alive in Safari while the PNG is drawn
+        await navigator.clipboard.write([new ClipboardItem({ "image/png": svgToPng(image) })]);
+        toast({ title: "Graphique copié", description: "L'image peut être collée dans une présentation ou un document." });
+      }
+    } catch {
+      toast({
+        title: "Export impossible",
+        description:
+          drawn && format === "clipboard"
+            ? "Le navigateur n'a pas autorisé la copie de l'image dans le presse-papiers."
+            : "L'image du graphique n'a pas pu être générée.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button ref={triggerRef} variant="ghost" size="icon" className="h-8 w-8 shrink-0" aria-label="Exporter le graphique">
+          <MoreHorizontal className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => handleExport("svg")}>
+          <FileCode className="h-4 w-4 mr-2" />
+          Télécharger en SVG
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport("png")}>
+          <FileImage className="h-4 w-4 mr-2" />
+          Télécharger en PNG (haute résolution)
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => handleExport("clipboard")}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copier l'image
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
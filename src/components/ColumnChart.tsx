@@ -0,0 +1,133 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from "recharts";
+import { ChartActions } from "./ChartActions";
+import { FreedomData } from "./Dashboard";
+import { CHARTS_BY_TYPE, COLUMN_CHART_LABELS, ColumnChart as ChartKind, numericHistogram, valueCounts, yearCounts } from "@/lib/columnCharts";
+import { averageMetric, axisDomain, recordField } from "@/lib/metrics";
+import { RegionTaxonomy, recordRegion } from "@/lib/regions";
+import { DatasetSchema, MetricDefinition } from "@/lib/schema";
+
+interface ColumnChartProps {
+  data: FreedomData[];
+  schema: DatasetSchema;
+  metrics: MetricDefinition[];
+  taxonomy: RegionTaxonomy;
+  animated?: boolean;
+  caption?: string[];
+}
+
+const COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
+
+const roundAverage = (value: number | null) => (value === null ? null : Number(value.toFixed(1)));
+
+// One column at a time, in the charts its type allows
+export const ColumnChart: React.FC<ColumnChartProps> = ({ data, schema, metrics, taxonomy, animated = true, caption = [] }) => {
+  const chartable = metrics.filter((metric) => CHARTS_BY_TYPE[metric.type].length > 0);
+  const [selectedField, setSelectedField] = useState<string>();
+  const [selectedChart, setSelectedChart] = useState<ChartKind>();
+
+  const metric = chartable.find((candidate) => candidate.field === selectedField) ?? chartable[0];
+  const charts = metric ? CHARTS_BY_TYPE[metric.type] : [];
+  const chart = selectedChart && charts.includes(selectedChart) ? selectedChart : charts[0];
+
+  const rows = useMemo(() => {
+    if (!metric || !chart) return [];
+    if (metric.kind === "numeric" && chart === "groupAverage") {
+      const groups = [...new Set(data.map((item) => recordRegion(item, taxonomy)))].sort((a, b) => a.localeCompare(b, "fr"));
+      return groups.map((group) => ({
+        name: group,
+        value: roundAverage(averageMetric(data.filter((item) => recordRegion(item, taxonomy) === group), metric)),
+      }));
+    }
+    if (metric.kind === "numeric" && chart === "trend") {
+      const times = [...new Set(data.map((item) => recordField(item, schema.time.field)))].sort((a, b) => Number(a) - Number(b));
+      return times.map((time) => ({
+        name: String(time),
+        value: roundAverage(averageMetric(data.filter((item) => recordField(item, schema.time.field) === time), metric)),
+      }));
+    }
+    if (metric.kind === "numeric") return numericHistogram(data, metric).map(({ name, count }) => ({ name, value: count }));
+    if (chart === "timeline") return yearCounts(data, metric.field).map(({ name, count }) => ({ name, value: count }));
+    return valueCounts(data, metric.field).map(({ name, count }) => ({ name, value: count }));
+  }, [data, schema, taxonomy, metric, chart]);
+
+  if (!metric || !chart) return null;
+
+  const averaged = chart === "groupAverage" || chart === "trend";
+  const domain = averaged && metric.kind === "numeric" ? axisDomain([metric]) : undefined;
+  const valueName = averaged ? `Moyenne de ${metric.name.toLowerCase()}` : "Effectif";
+
+  return (
+    <Card className="lg:col-span-2" data-chart-card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <CardTitle>Explorer une colonne</CardTitle>
+            <CardDescription>Les graphiques proposés dépendent du type de la colonne</CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select value={metric.field} onValueChange={setSelectedField}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {chartable.map((candidate) => (
+                  <SelectItem key={candidate.field} value={candidate.field}>
+                    {candidate.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={chart}
+              onValueChange={(value) => value && setSelectedChart(value as ChartKind)}
+            >
+              {charts.map((kind) => (
+                <ToggleGroupItem key={kind} value={kind} className="text-xs">
+                  {COLUMN_CHART_LABELS[kind]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <ChartActions caption={caption} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={320}>
+          {chart === "pie" ? (
+            <PieChart>
+              <Pie isAnimationActive={animated} data={rows} cx="50%" cy="50%" outerRadius={100} dataKey="value" label={({ name }) => name}>
+                {rows.map((_, index) => (
+                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                ))}
+              </Pie>
+              <Tooltip />
+            </PieChart>
+          ) : chart === "trend" ? (
+            <LineChart data={rows} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis dataKey="name" />
+              <YAxis domain={domain} reversed={metric.kind === "numeric" && metric.polarity === "lower"} />
+              <Tooltip />
+              <Line isAnimationActive={animated} type="monotone" dataKey="value" name={valueName} stroke={COLORS[0]} strokeWidth={3} />
+            </LineChart>
+          ) : (
+            <BarChart data={rows} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis dataKey="name" tick={{ fontSize: 12 }} angle={-45} textAnchor="end" height={80} />
+              <YAxis domain={domain} reversed={chart === "groupAverage" && metric.kind === "numeric" && metric.polarity === "lower"} />
+              <Tooltip />
+              <Bar isAnimationActive={animated} dataKey="value" name={valueName} fill={COLORS[0]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          )}
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, Columns3, Rows3, Wand2 } from "lucide-react";
+import {
+  ColumnMapping,
+  MAPPED_FIELDS,
+  MappedField,
+  isMappingComplete,
+  loadSavedMapping,
+  suggestMapping,
+} from "@/lib/mapping";
+import { suggestValueColumns } from "@/lib/unpivot";
+import { SheetRow, formatCell } from "@/lib/workbook";
+
+interface ColumnMapperProps {
+  headers: string[];
+  rows: SheetRow[];
+  description?: string;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onBack: () => void;
+  onUnpivot?: () => void;
+}
+
+const UNMAPPED = "__unmapped__";
+
+export const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, rows, description, onConfirm, onBack, onUnpivot }) => {
+  const [savedMapping] = useState(() => loadSavedMapping(headers));
+  const [mapping, setMapping] = useState<ColumnMapping>(() => savedMapping ?? suggestMapping(headers));
+
+  const updateField = (field: MappedField, header: string) => {
+    setMapping((prev) => ({ ...prev, [field]: header === UNMAPPED ? null : header }));
+  };
+
+  // First non-empty value of a column, to help recognise what it contains
+  const sampleValue = (header: string | null) => {
+    if (header === null) return "";
+    const row = rows.find((r) => formatCell(r[header]).trim() !== "");
+    return row ? formatCell(row[header]) : "";
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Columns3 className="h-5 w-5 text-primary" />
+          <div>
+            <p className="font-medium">Associez les colonnes du fichier</p>
+            <p className="text-sm text-muted-foreground">
+              {headers.length} colonnes détectées • {rows.length} lignes
+              {description && ` • ${description}`}
+            </p>
+          </div>
+        </div>
+        {savedMapping ? (
+          <Badge variant="secondary">Correspondance mémorisée</Badge>
+        ) : (
+          <Badge variant="outline" className="gap-1">
+            <Wand2 className="h-3 w-3" />
+            Suggestion automatique
+          </Badge>
+        )}
+      </div>
+
+      {onUnpivot && suggestValueColumns(headers).length > 1 && (
+        <Alert>
+          <Rows3 className="h-4 w-4" />
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+            <span>Ce fichier semble avoir une colonne par année. Convertissez-les en lignes avant d'associer les colonnes.</span>
+            <Button variant="outline" size="sm" onClick={onUnpivot}>
+              Convertir en lignes
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border divide-y">
+        {MAPPED_FIELDS.map(({ field, label, required }) => (
+          <div key={field} className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:items-center p-3">
+            <div className="font-medium text-sm">
+              {label}
+              {required && <span className="text-destructive ml-1">*</span>}
+            </div>
+            <Select value={mapping[field] ?? UNMAPPED} onValueChange={(value) => updateField(field, value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNMAPPED}>— Non associé —</SelectItem>
+                {headers.map((header) => (
+                  <SelectItem key={header} value={header}>
+                    {header}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="text-sm text-muted-foreground truncate">
+              {mapping[field] !== null ? `ex. ${sampleValue(mapping[field])}` : "Valeur par défaut"}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Retour
+        </Button>
+        <div className="flex gap-2">
+          {onUnpivot && (
+            <Button variant="outline" onClick={onUnpivot}>
+              <Rows3 className="h-4 w-4 mr-2" />
+              Colonnes en lignes
+            </Button>
+          )}
+          <Button disabled={!isMappingComplete(mapping)} onClick={() => onConfirm(mapping)}>
+            Valider la correspondance
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Columns3 } from "lucide-react";
+import type { FreedomData } from "./Dashboard";
+import { COLUMN_TYPE_LABELS, ColumnType } from "@/lib/columnTypes";
+import { POLARITY_LABELS, Polarity, scoreMetricOf } from "@/lib/metrics";
+import { DatasetSchema, isRetypable, retypeMetric, updateMetric } from "@/lib/schema";
+
+interface ColumnSettingsProps {
+  data: FreedomData[];
+  schema: DatasetSchema;
+  onChange: (schema: DatasetSchema) => void;
+}
+
+// Type, visibility and reading direction of each column; Freedom House scales are set in ScaleSettings
+export const ColumnSettings: React.FC<ColumnSettingsProps> = ({ data, schema, onChange }) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <Button variant="outline" size="sm">
+        <Columns3 className="h-4 w-4 mr-2" />
+        Colonnes
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent align="end" className="w-96 space-y-4 max-h-[70vh] overflow-y-auto">
+      <p className="text-sm text-muted-foreground">
+        Le type de chaque colonne, détecté à l'import, décide du tri, du filtre proposé et des graphiques disponibles.
+      </p>
+      {schema.metrics.map((metric) => (
+        <div key={metric.field} className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <Label className="truncate">{metric.name}</Label>
+            <Switch
+              checked={!metric.hidden}
+              onCheckedChange={(checked) => onChange(updateMetric(schema, metric.field, { hidden: !checked }))}
+            />
+          </div>
+          <Select
+            value={metric.type}
+            disabled={!isRetypable(metric)}
+            onValueChange={(value) => onChange(retypeMetric(schema, metric.field, value as ColumnType, data))}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(COLUMN_TYPE_LABELS) as ColumnType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {COLUMN_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {metric.kind === "numeric" && scoreMetricOf(metric.field) === undefined && (
+            <ToggleGroup
+              type="single"
+              size="sm"
+              className="justify-start"
+              value={metric.polarity}
+              onValueChange={(value) => value && onChange(updateMetric(schema, metric.field, { polarity: value as Polarity }))}
+            >
+              {(Object.keys(POLARITY_LABELS) as Polarity[]).map((polarity) => (
+                <ToggleGroupItem key={polarity} value={polarity} className="text-xs">
+                  {POLARITY_LABELS[polarity]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+        </div>
+      ))}
+    </PopoverContent>
+  </Popover>
+);
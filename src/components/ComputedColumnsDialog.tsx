@@ -0,0 +1,149 @@
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Calculator, Plus, Trash2 } from "lucide-react";
+import { FreedomData } from "./Dashboard";
+import { COMPUTED_EXAMPLES, ComputedColumn, applyComputedColumns, checkComputedColumns } from "@/lib/computed";
+import { typedLabel } from "@/lib/columnTypes";
+
+interface ComputedColumnsDialogProps {
+  data: FreedomData[];
+  columns: ComputedColumn[];
+  onChange: (columns: ComputedColumn[]) => void;
+}
+
+const SYNTAX_HELP = [
+  ["Colonnes", "totalScore, politicalRights, region, year… ou [En-tête du fichier]"],
+  ["Opérations", "+ - * / % ^, comparaisons = != < <= > >=, and, or, not"],
+  ["Fonctions", "if(condition, alors, sinon), abs, round(x, décimales), min, max, coalesce"],
+  ["Dans le temps", "lag(x, n) et lead(x, n) : valeur du même pays n années avant ou après"],
+  ["Par groupe", "mean, sum, count, rank(x, colonne…) : sur les lignes partageant ces colonnes"],
+];
+
+// Rows whose value is shown under a valid formula
+const PREVIEW_SIZE = 3;
+
+export const ComputedColumnsDialog: React.FC<ComputedColumnsDialogProps> = ({ data, columns, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ComputedColumn[]>(columns);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) setDraft(columns);
+  };
+
+  const problems = useMemo(() => checkComputedColumns(draft, data), [draft, data]);
+  // The draft evaluated on the loaded data, for a glimpse of each column before it is applied
+  const preview = useMemo(() => (open ? applyComputedColumns(data, draft) : []), [open, data, draft]);
+
+  const updateColumn = (index: number, changes: Partial<ComputedColumn>) => {
+    setDraft((prev) => prev.map((column, position) => (position === index ? { ...column, ...changes } : column)));
+  };
+
+  const previewValues = (name: string) =>
+    preview
+      .map((record) => record.computed?.[name])
+      .filter((value) => value !== undefined)
+      .slice(0, PREVIEW_SIZE)
+      .map(typedLabel);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Calculator className="h-4 w-4 mr-2" />
+          Colonnes calculées
+          {columns.length > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {columns.length}
+            </Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Colonnes calculées</DialogTitle>
+          <DialogDescription>
+            Chaque colonne est calculée par une formule à partir des autres, y compris des colonnes calculées placées
+            au-dessus. Elles apparaissent dans le tableau, les filtres, les graphiques et les exports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="rounded-lg border p-3 text-xs space-y-1">
+            {SYNTAX_HELP.map(([label, help]) => (
+              <p key={label}>
+                <span className="font-medium">{label} : </span>
+                <span className="text-muted-foreground">{help}</span>
+              </p>
+            ))}
+          </div>
+
+          <div className="max-h-80 overflow-y-auto pr-3 space-y-3">
+            {draft.map((column, index) => {
+              const values = problems[index] ? [] : previewValues(column.name);
+              return (
+                <div key={index} className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      className="w-48"
+                      placeholder="Nom"
+                      value={column.name}
+                      onChange={(event) => updateColumn(index, { name: event.target.value })}
+                    />
+                    <Input
+                      className="flex-1 font-mono text-sm"
+                      placeholder="Formule"
+                      value={column.formula}
+                      onChange={(event) => updateColumn(index, { formula: event.target.value })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDraft((prev) => prev.filter((_, position) => position !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {problems[index] ? (
+                    <p className="text-xs text-destructive">{problems[index]}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      {values.length > 0 ? `Aperçu : ${values.join(" ; ")}…` : "Aucune valeur calculée sur les données chargées"}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setDraft((prev) => [...prev, { name: "", formula: "" }])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Ajouter une colonne
+            </Button>
+            {COMPUTED_EXAMPLES.filter((example) => !draft.some((column) => column.name === example.name)).map((example) => (
+              <Button key={example.name} variant="ghost" size="sm" onClick={() => setDraft((prev) => [...prev, example])}>
+                {example.name}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              disabled={problems.some(Boolean)}
+              onClick={() => {
+                onChange(draft.map((column) => ({ name: column.name.trim(), formula: column.formula.trim() })));
+                setOpen(false);
+              }}
+            >
+              Appliquer
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
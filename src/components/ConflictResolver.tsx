@@ -0,0 +1,156 @@
+import { useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ChevronLeft, ChevronRight, GitMerge } from "lucide-react";
+import { CompareField, MergeResult, comparedValue } from "@/lib/merge";
+
+interface ConflictResolverProps {
+  result: MergeResult;
+  onConfirm: (choices: Record<string, number>) => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<CompareField, string> = {
+  region: "Région",
+  status: "Statut",
+  politicalRights: "Droits politiques",
+  civilLiberties: "Libertés civiles",
+  politicalRightsScore: "Sous-score droits politiques",
+  civilLibertiesScore: "Sous-score libertés civiles",
+  aggregateScore: "Score agrégé",
+  extra: "Autres colonnes",
+};
+
+const CONFLICTS_PER_PAGE = 5;
+
+export const ConflictResolver: React.FC<ConflictResolverProps> = ({ result, onConfirm, onCancel }) => {
+  const [choices, setChoices] = useState<Record<string, number>>({});
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const { conflicts } = result;
+  const totalPages = Math.ceil(conflicts.length / CONFLICTS_PER_PAGE);
+  const pageConflicts = conflicts.slice((currentPage - 1) * CONFLICTS_PER_PAGE, currentPage * CONFLICTS_PER_PAGE);
+
+  // Later files usually carry corrected figures, so offer to prefer them in one click
+  const preferLast = () => {
+    setChoices(Object.fromEntries(conflicts.map((conflict) => [conflict.key, conflict.candidates.length - 1])));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <GitMerge className="h-5 w-5 text-warning" />
+        <div>
+          <p className="font-medium">Conflits de fusion</p>
+          <p className="text-sm text-muted-foreground">
+            {result.records.length} enregistrements fusionnés • {conflicts.length} enregistrements (pays, année) divergent
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Pour tous les conflits :</span>
+        <Button variant="outline" size="sm" onClick={() => setChoices({})}>Garder la première version</Button>
+        <Button variant="outline" size="sm" onClick={preferLast}>Garder la dernière version</Button>
+      </div>
+
+      <div className="space-y-3">
+        {pageConflicts.map((conflict) => (
+          <div key={conflict.key} className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{conflict.country}</span>
+              <Badge variant="secondary">{conflict.year}</Badge>
+              {conflict.fields.map((field) => (
+                <Badge key={field} variant="outline" className="border-warning text-warning text-xs">
+                  {FIELD_LABELS[field]}
+                </Badge>
+              ))}
+            </div>
+            <RadioGroup
+              value={String(choices[conflict.key] ?? 0)}
+              onValueChange={(value) => setChoices((prev) => ({ ...prev, [conflict.key]: Number(value) }))}
+            >
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>Source</TableHead>
+                      {conflict.fields.map((field) => (
+                        <TableHead key={field}>{FIELD_LABELS[field]}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {conflict.candidates.map((candidate, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <RadioGroupItem value={String(index)} id={`${conflict.key}-${index}`} />
+                        </TableCell>
+                        <TableCell>
+                          <label htmlFor={`${conflict.key}-${index}`} className="text-sm cursor-pointer">
+                            {candidate.label}
+                            {candidate.record.source && (
+                              <span className="text-muted-foreground"> • ligne {candidate.record.source.row}</span>
+                            )}
+                          </label>
+                        </TableCell>
+                        {conflict.fields.map((field) => (
+                          <TableCell key={field} className="font-mono text-sm">
+                            {comparedValue(candidate.record, field)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </RadioGroup>
+          </div>
+        ))}
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCurrentPage((prev) => Math.max(prev - 1, 1))}
+            disabled={currentPage === 1}
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Précédent
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {currentPage} sur {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCurrentPage((prev) => Math.min(prev + 1, totalPages))}
+            disabled={currentPage === totalPages}
+          >
+            Suivant
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" onClick={onCancel}>
+          Annuler
+        </Button>
+        <Button onClick={() => onConfirm(choices)}>Fusionner les données</Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, MapPin, Trash2 } from "lucide-react";
+import { FreedomData } from "./Dashboard";
+import { COUNTRIES, CountryAliases, countryKey, unmatchedCountries } from "@/lib/countries";
+
+interface CountryCodesDialogProps {
+  data: FreedomData[];
+  aliases: CountryAliases;
+  onChange: (aliases: CountryAliases) => void;
+}
+
+const SORTED_COUNTRIES = [...COUNTRIES].sort((a, b) => a.fr.localeCompare(b.fr, "fr"));
+
+export const CountryCodesDialog: React.FC<CountryCodesDialogProps> = ({ data, aliases, onChange }) => {
+  const [open, setOpen] = useState(false);
+  // The aliases as edited, keyed by country key like the saved ones
+  const [draft, setDraft] = useState<CountryAliases>({});
+
+  const unmatched = useMemo(() => unmatchedCountries(data), [data]);
+  // Aliases are keyed by normalized name: show them as written in the loaded files when possible
+  const aliasNames = useMemo(() => {
+    const names = new Map<string, string>();
+    data.forEach((record) => {
+      const name = record.providedCountry ?? record.country;
+      if (!names.has(countryKey(name))) names.set(countryKey(name), name);
+    });
+    return names;
+  }, [data]);
+  const saved = Object.keys(aliases).sort((a, b) => a.localeCompare(b, "fr"));
+  const changed = JSON.stringify(draft) !== JSON.stringify(aliases);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) setDraft(aliases);
+  };
+
+  const handleRemove = (key: string) => {
+    setDraft((prev) => Object.fromEntries(Object.entries(prev).filter(([candidate]) => candidate !== key)));
+  };
+
+  const apply = () => {
+    onChange(draft);
+    setOpen(false);
+  };
+
+  const countrySelect = (key: string) => (
+    <Select value={draft[key] ?? ""} onValueChange={(iso3) => setDraft((prev) => ({ ...prev, [key]: iso3 }))}>
+      <SelectTrigger className="w-56">
+        <SelectValue placeholder="Choisir un pays" />
+      </SelectTrigger>
+      <SelectContent>
+        {SORTED_COUNTRIES.map((country) => (
+          <SelectItem key={country.iso3} value={country.iso3}>
+            {country.fr} ({country.iso3})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <MapPin className="h-4 w-4 mr-2" />
+          Pays
+          {unmatched.length > 0 && (
+            <Badge variant="destructive" className="ml-2">
+              {unmatched.length}
+            </Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Codes pays ISO 3166</DialogTitle>
+          <DialogDescription>
+            Les noms de pays en français, en anglais et leurs variantes courantes sont reconnus automatiquement.
+            Associez ici les noms restants à un pays : la correspondance sera retenue pour les prochains imports, et
+            peut être modifiée ou supprimée ensuite.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {unmatched.length === 0 ? (
+            <div className="flex items-center gap-2 rounded-lg border p-3 text-sm">
+              <CheckCircle className="h-4 w-4 text-success" />
+              Tous les pays ont été reconnus.
+            </div>
+          ) : (
+            <div className="max-h-64 overflow-y-auto pr-3 space-y-2">
+              {unmatched.map(({ name, count }) => (
+                <div key={name} className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{name}</p>
+                    <p className="text-xs text-muted-foreground">{count} lignes</p>
+                  </div>
+                  {countrySelect(countryKey(name))}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {saved.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Correspondances enregistrées</p>
+              <div className="max-h-48 overflow-y-auto pr-3 space-y-2">
+                {saved.map((key) => (
+                  <div key={key} className="flex items-center justify-between gap-3">
+                    <p
+                      className={`text-sm truncate min-w-0 ${key in draft ? "" : "line-through text-muted-foreground"}`}
+                    >
+                      {aliasNames.get(key) ?? key}
+                    </p>
+                    <div className="flex items-center gap-1">
+                      {countrySelect(key)}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={!(key in draft)}
+                        onClick={() => handleRemove(key)}
+                        aria-label="Supprimer la correspondance"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button disabled={!changed} onClick={apply}>
+              Appliquer
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
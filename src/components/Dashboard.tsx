@@ -1,14 +1,67 @@
-import { useState } from "react";
+import { useMemo, useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { FileUpload } from "./FileUpload";
+import { ImportDialog } from "./ImportDialog";
+import { StatusRulesDialog } from "./StatusRulesDialog";
+import { CountryCodesDialog } from "./CountryCodesDialog";
+import { ComputedColumnsDialog } from "./ComputedColumnsDialog";
+import { DatasetLibrary } from "./DatasetLibrary";
+import { ExportDialog } from "./ExportDialog";
+import { ReportButton } from "./ReportButton";
+import { SnapshotButton } from "./SnapshotButton";
+import { ScaleSettings } from "./ScaleSettings";
+import { ColumnSettings } from "./ColumnSettings";
+import { AdvancedFilters } from "./AdvancedFilters";
 import { DataTable } from "./DataTable";
 import { DataVisualization } from "./DataVisualization";
 import { StatsCards } from "./StatsCards";
-import { Search, Filter, Download, BarChart3, Table2, Globe } from "lucide-react";
+import { useDatasetLibrary } from "@/hooks/use-dataset-library";
+import { useViewState } from "@/hooks/use-view-state";
+import { useToast } from "@/hooks/use-toast";
+import { Search, Filter, BarChart3, Table2, Globe, Link2 } from "lucide-react";
+import { ComputedColumn, applyComputedColumns, loadComputedColumns, saveComputedColumns, withComputedMetrics } from "@/lib/computed";
+import { CountryAliases, applyCountryCodes, loadCountryAliases, saveCountryAliases } from "@/lib/countries";
+import {
+  DatasetSchema,
+  FREEDOM_HOUSE_SCHEMA,
+  applyColumnTypes,
+  categoricalMetrics,
+  dimensionMetrics,
+  hasScoreMetrics,
+  inferSchema,
+  isRegionGroup,
+  resolveMetrics,
+} from "@/lib/schema";
+import { ColumnFilter, ColumnFilters, FILTER_KIND_BY_TYPE, applyColumnFilters, describeFilters, isFilterActive } from "@/lib/filters";
+import { TableSort } from "@/lib/table";
+import { DimensionField } from "@/lib/mapping";
+import { ExportContext, describeSource } from "@/lib/export";
+import { DEFAULT_VIEW_STATE, ViewState } from "@/lib/viewState";
+import { RegionTaxonomy, TAXONOMY_LABELS, loadTaxonomy, recordRegion, saveTaxonomy } from "@/lib/regions";
+import { StatusRules, applyStatusRules, loadStatusRules, saveStatusRules } from "@/lib/statusRules";
+import {
+  DEFAULT_SCALES,
+  PolaritySelection,
+  ScaleSelection,
+  detectScales,
+  loadPolarities,
+  recordField,
+  savePolarities,
+} from "@/lib/metrics";
+
+// Where a record comes from, with its cells exactly as they were in the source file
+export interface RecordSource {
+  file?: string;
+  sheet: string;
+  row: number;
+  raw: Record<string, unknown>;
+  // Headers the country, region and year were read from, which name the dataset dimensions, see lib/schema
+  dimensionHeaders?: Partial<Record<DimensionField, string>>;
+}
 
 export interface FreedomData {
   country: string;
@@ -18,58 +71,253 @@ export interface FreedomData {
   politicalRights: number;
   civilLiberties: number;
   totalScore: number;
+  // Freedom House scores since 2017: 0–40 and 0–60 subscores adding up to the 0–100 aggregate
+  politicalRightsScore?: number;
+  civilLibertiesScore?: number;
+  aggregateScore?: number;
+  // ISO 3166 codes of recognised countries, and the name as read from the source, see lib/countries
+  iso2?: string;
+  iso3?: string;
+  providedCountry?: string;
+  // Cells of unmapped columns by header, read through the dataset schema, see lib/schema
+  extra?: Record<string, unknown>;
+  // Values of the computed columns by name, see lib/computed
+  computed?: Record<string, unknown>;
+  source?: RecordSource;
+  // Status as read from the source and status implied by the scores, see lib/statusRules
+  providedStatus?: string;
+  computedStatus?: "Libre" | "Partiellement libre" | "Pas libre";
+  statusDerived?: boolean;
   [key: string]: any;
 }
 
+const categoryValue = (filter: ColumnFilter | undefined): string => (filter?.kind === "category" ? filter.value : "all");
+
 const Dashboard = () => {
   const [data, setData] = useState<FreedomData[]>([]);
+  // Records as imported, before status rules, column types and computed columns: what is saved and merged into
+  const [importedData, setImportedData] = useState<FreedomData[]>([]);
   const [filteredData, setFilteredData] = useState<FreedomData[]>([]);
-  const [activeView, setActiveView] = useState<"table" | "charts">("table");
-  const [searchTerm, setSearchTerm] = useState("");
-  const [regionFilter, setRegionFilter] = useState<string>("all");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [statusRules, setStatusRules] = useState<StatusRules>(loadStatusRules);
+  const [scales, setScales] = useState<ScaleSelection>(DEFAULT_SCALES);
+  const [polarities, setPolarities] = useState<PolaritySelection>(loadPolarities);
+  const [countryAliases, setCountryAliases] = useState<CountryAliases>(loadCountryAliases);
+  const [taxonomy, setTaxonomy] = useState<RegionTaxonomy>(loadTaxonomy);
+  const [schema, setSchema] = useState<DatasetSchema>(FREEDOM_HOUSE_SCHEMA);
+  const [computedColumns, setComputedColumns] = useState<ComputedColumn[]>(loadComputedColumns);
+
+  // The classification a shared link was made with replaces the saved one, as if picked
+  const applyViewState = (state: ViewState) => {
+    const regionTaxonomy = isRegionGroup(schema) ? state.taxonomy ?? taxonomy : taxonomy;
+    if (regionTaxonomy !== taxonomy) {
+      saveTaxonomy(regionTaxonomy);
+      setTaxonomy(regionTaxonomy);
+    }
+    applyFilters(state.search, state.region, state.columns, data, regionTaxonomy);
+  };
+
+  // Filters, view, table sort and page live in the URL: handlers navigate, applyViewState follows.
+  // The filter of each metric is keyed by field, in the widget its column type calls for; the table sort
+  // is kept here rather than in the table so that exports follow the order shown.
+  const { state: viewState, navigate } = useViewState(applyViewState);
+  const {
+    search: searchTerm,
+    region: regionFilter,
+    columns: columnFilters,
+    view: activeView,
+    sort: tableSort,
+    page: tablePage,
+  } = viewState;
+  // A link opened before any data applies to the first dataset shown
+  const linkPending = useRef(true);
+
+  const showView = (changes: Partial<ViewState>, options?: { replace?: boolean }) =>
+    navigate({ ...viewState, taxonomy, ...changes }, options);
+
+  const metrics = useMemo(() => resolveMetrics(schema, scales, polarities), [schema, scales, polarities]);
+  const dimensions = useMemo(() => dimensionMetrics(schema, data), [schema, data]);
+
+  // Computed columns follow every change of the records or column types they are derived from
+  const updateData = (records: FreedomData[], baseSchema: DatasetSchema, columns: ComputedColumn[] = computedColumns) => {
+    const computedData = applyComputedColumns(records, columns);
+    const computedSchema = withComputedMetrics(baseSchema, computedData, columns);
+    setData(computedData);
+    setSchema(computedSchema);
+    return { records: computedData, schema: computedSchema };
+  };
+
+  // Aliases may have changed since the records were saved: country names are resolved again with the current ones
+  const showData = (newData: FreedomData[]) => {
+    const codedData = applyCountryCodes(newData, countryAliases);
+    setImportedData(codedData);
+    const ruledData = applyStatusRules(codedData, statusRules);
+    const nextSchema = inferSchema(ruledData);
+    const { records } = updateData(applyColumnTypes(ruledData, nextSchema), nextSchema);
+    // Groups other than regions are filtered on their values as read, whatever the saved classification
+    const regionTaxonomy = isRegionGroup(nextSchema) ? loadTaxonomy() : "dataset";
+    setTaxonomy(regionTaxonomy);
+    setScales(detectScales(ruledData));
+    if (linkPending.current) {
+      linkPending.current = false;
+      applyFilters(searchTerm, regionFilter, columnFilters, records, regionTaxonomy);
+    } else {
+      setFilteredData(records);
+      showView({ ...DEFAULT_VIEW_STATE, view: activeView }, { replace: true });
+    }
+  };
+
+  const library = useDatasetLibrary(showData);
+  const { toast } = useToast();
+
+  // Records are saved as imported: status rules, types and computed columns are applied again when reopened
+  const saveData = (records: FreedomData[]) =>
+    library.save(records).catch(() =>
+      toast({
+        title: "Enregistrement impossible",
+        description: "Les données sont affichées mais n'ont pas pu être enregistrées dans le navigateur.",
+        variant: "destructive",
+      })
+    );
 
   const handleDataLoad = (newData: FreedomData[]) => {
-    setData(newData);
-    setFilteredData(newData);
+    showData(newData);
+    saveData(newData);
+  };
+
+  const handleNewDataset = () => {
+    library.close();
+    setData([]);
+    setImportedData([]);
+    setFilteredData([]);
+    setSchema(FREEDOM_HOUSE_SCHEMA);
+    setTaxonomy(loadTaxonomy());
+  };
+
+  const handleStatusRulesChange = (rules: StatusRules) => {
+    saveStatusRules(rules);
+    setStatusRules(rules);
+    const { records } = updateData(applyStatusRules(data, rules), schema);
+    applyFilters(searchTerm, regionFilter, columnFilters, records);
+  };
+
+  const handleCountryAliasesChange = (aliases: CountryAliases) => {
+    saveCountryAliases(aliases);
+    setCountryAliases(aliases);
+    const codedData = applyCountryCodes(importedData, aliases);
+    setImportedData(codedData);
+    // Codes decide regions and merge keys: the open dataset is saved with them. Records left unsaved stay so.
+    if (library.current) saveData(codedData);
+    const { records } = updateData(applyCountryCodes(data, aliases), schema);
+    applyFilters(searchTerm, regionFilter, columnFilters, records);
+  };
+
+  // Cells are read again in their new type; filters of hidden columns or of another kind of widget are dropped
+  const handleSchemaChange = (nextSchema: DatasetSchema, columns: ComputedColumn[] = computedColumns) => {
+    const { records, schema: computedSchema } = updateData(applyColumnTypes(data, nextSchema), nextSchema, columns);
+    const nextFilters = Object.fromEntries(
+      Object.entries(columnFilters).filter(([field, filter]) => {
+        const metric = [...dimensionMetrics(computedSchema, records), ...computedSchema.metrics].find(
+          (candidate) => candidate.field === field
+        );
+        return metric && !metric.hidden && FILTER_KIND_BY_TYPE[metric.type] === filter.kind;
+      })
+    );
+    applyFilters(searchTerm, regionFilter, nextFilters, records);
+    showView({ columns: nextFilters }, { replace: true });
   };
 
+  const handleComputedColumnsChange = (columns: ComputedColumn[]) => {
+    saveComputedColumns(columns);
+    setComputedColumns(columns);
+    handleSchemaChange(schema, columns);
+  };
+
+  // Filtering starts the table over from its first page. Typing adds one history entry, on its first keystroke.
   const handleSearch = (term: string) => {
-    setSearchTerm(term);
-    applyFilters(term, regionFilter, statusFilter);
+    showView({ search: term, page: 1 }, { replace: searchTerm !== "" });
   };
 
   const handleRegionFilter = (region: string) => {
-    setRegionFilter(region);
-    applyFilters(searchTerm, region, statusFilter);
+    showView({ region, page: 1 });
+  };
+
+  // Lists are picked in one go, bounds and text are typed
+  const handleColumnFilter = (field: string, filter: ColumnFilter) => {
+    const typing = filter.kind !== "category" && isFilterActive(columnFilters[field]);
+    showView({ columns: { ...columnFilters, [field]: filter }, page: 1 }, { replace: typing });
+  };
+
+  const handleClearFilters = (fields: string[]) => {
+    const nextFilters = Object.fromEntries(Object.entries(columnFilters).filter(([field]) => !fields.includes(field)));
+    showView({ columns: nextFilters, page: 1 });
+  };
+
+  // Region names differ between classifications, so the region filter starts over
+  const handleTaxonomyChange = (nextTaxonomy: RegionTaxonomy) => {
+    saveTaxonomy(nextTaxonomy);
+    setTaxonomy(nextTaxonomy);
+    showView({ region: "all", taxonomy: nextTaxonomy, page: 1 });
+  };
+
+  // Switching between normalized and source columns starts from the first page
+  const handleTableSortChange = (sort: TableSort) => {
+    showView({ sort, page: sort.view === tableSort.view ? tablePage : 1 });
+  };
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href).then(
+      () => toast({ title: "Lien copié", description: "Il ouvre cette vue sur le même jeu de données." }),
+      () =>
+        toast({
+          title: "Copie impossible",
+          description: "Le navigateur n'a pas autorisé l'accès au presse-papiers.",
+          variant: "destructive",
+        })
+    );
   };
 
-  const handleStatusFilter = (status: string) => {
-    setStatusFilter(status);
-    applyFilters(searchTerm, regionFilter, status);
+  const handlePolaritiesChange = (nextPolarities: PolaritySelection) => {
+    savePolarities(nextPolarities);
+    setPolarities(nextPolarities);
   };
 
-  const applyFilters = (search: string, region: string, status: string) => {
-    let filtered = data;
+  const applyFilters = (
+    search: string,
+    region: string,
+    filters: ColumnFilters,
+    source: FreedomData[] = data,
+    regionTaxonomy: RegionTaxonomy = taxonomy
+  ) => {
+    let filtered = source;
 
     if (search) {
       filtered = filtered.filter(item =>
-        item.country.toLowerCase().includes(search.toLowerCase())
+        String(recordField(item, schema.entity.field)).toLowerCase().includes(search.toLowerCase()) ||
+        item.iso3?.toLowerCase() === search.toLowerCase()
       );
     }
 
     if (region !== "all") {
-      filtered = filtered.filter(item => item.region === region);
+      filtered = filtered.filter(item => recordRegion(item, regionTaxonomy) === region);
     }
 
-    if (status !== "all") {
-      filtered = filtered.filter(item => item.status === status);
-    }
+    filtered = applyColumnFilters(filtered, filters);
 
     setFilteredData(filtered);
   };
 
-  const uniqueRegions = [...new Set(data.map(item => item.region))];
+  const exportContext: ExportContext = {
+    records: filteredData,
+    schema,
+    metrics,
+    taxonomy,
+    sort: tableSort,
+    filters: describeFilters({ search: searchTerm, region: regionFilter, taxonomy, columns: columnFilters }, schema),
+  };
+
+  const datasetName = library.current?.name ?? "Freedom Analytics";
+
+  const uniqueRegions = [...new Set(data.map(item => recordRegion(item, taxonomy)))].sort((a, b) => a.localeCompare(b, "fr"));
 
   return (
     <div className="min-h-screen bg-dashboard-bg">
@@ -86,9 +334,35 @@ const Dashboard = () => {
                 <p className="text-muted-foreground">Tableau de bord des données de liberté mondiale</p>
               </div>
             </div>
-            <Badge variant="secondary" className="text-sm">
-              {data.length} enregistrements chargés
-            </Badge>
+            <div className="flex items-center gap-3">
+              {library.current && (
+                <Badge variant="outline" className="text-sm">
+                  {library.current.name}
+                </Badge>
+              )}
+              <Badge variant="secondary" className="text-sm">
+                {data.length} enregistrements chargés
+              </Badge>
+              <DatasetLibrary
+                datasets={library.datasets}
+                current={library.current}
+                onOpen={library.open}
+                onRename={library.rename}
+                onDuplicate={library.duplicate}
+                onDelete={library.remove}
+                onNew={handleNewDataset}
+              />
+              {data.length > 0 && (
+                <ComputedColumnsDialog data={data} columns={computedColumns} onChange={handleComputedColumnsChange} />
+              )}
+              {data.length > 0 && (
+                <CountryCodesDialog data={data} aliases={countryAliases} onChange={handleCountryAliasesChange} />
+              )}
+              {data.length > 0 && (
+                <StatusRulesDialog data={data} rules={statusRules} onChange={handleStatusRulesChange} />
+              )}
+              {data.length > 0 && <ImportDialog data={importedData} onImport={handleDataLoad} />}
+            </div>
           </div>
         </div>
       </header>
@@ -100,7 +374,7 @@ const Dashboard = () => {
             <CardHeader className="text-center">
               <CardTitle className="text-2xl">Commencez votre analyse</CardTitle>
               <CardDescription>
-                Importez votre fichier Excel contenant les données de liberté mondiale
+                Importez un ou plusieurs fichiers (Excel, ODS, CSV ou JSON) contenant les données de liberté mondiale
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -113,7 +387,7 @@ const Dashboard = () => {
         {data.length > 0 && (
           <>
             {/* Stats Cards */}
-            <StatsCards data={filteredData} />
+            <StatsCards data={filteredData} schema={schema} metrics={metrics} taxonomy={taxonomy} />
 
             {/* Controls */}
             <Card>
@@ -129,10 +403,19 @@ const Dashboard = () => {
                     </CardDescription>
                   </div>
                   <div className="flex gap-2">
+                    <ColumnSettings data={data} schema={schema} onChange={handleSchemaChange} />
+                    {hasScoreMetrics(schema) && (
+                      <ScaleSettings
+                        scales={scales}
+                        polarities={polarities}
+                        onScalesChange={setScales}
+                        onPolaritiesChange={handlePolaritiesChange}
+                      />
+                    )}
                     <Button
                       variant={activeView === "table" ? "default" : "outline"}
                       size="sm"
-                      onClick={() => setActiveView("table")}
+                      onClick={() => showView({ view: "table" })}
                     >
                       <Table2 className="h-4 w-4 mr-2" />
                       Tableau
@@ -140,7 +423,7 @@ const Dashboard = () => {
                     <Button
                       variant={activeView === "charts" ? "default" : "outline"}
                       size="sm"
-                      onClick={() => setActiveView("charts")}
+                      onClick={() => showView({ view: "charts" })}
                     >
                       <BarChart3 className="h-4 w-4 mr-2" />
                       Graphiques
@@ -153,18 +436,32 @@ const Dashboard = () => {
                   <div className="relative flex-1">
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
-                      placeholder="Rechercher un pays..."
+                      placeholder={`Rechercher parmi les ${schema.entity.plural}...`}
                       value={searchTerm}
                       onChange={(e) => handleSearch(e.target.value)}
                       className="pl-10"
                     />
                   </div>
+                  {isRegionGroup(schema) && (
+                    <Select value={taxonomy} onValueChange={(value) => handleTaxonomyChange(value as RegionTaxonomy)}>
+                      <SelectTrigger className="w-full sm:w-56">
+                        <SelectValue placeholder="Classification" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(TAXONOMY_LABELS).map(([key, label]) => (
+                          <SelectItem key={key} value={key}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                   <Select value={regionFilter} onValueChange={handleRegionFilter}>
                     <SelectTrigger className="w-full sm:w-48">
-                      <SelectValue placeholder="Région" />
+                      <SelectValue placeholder={schema.group.label} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="all">Toutes les régions</SelectItem>
+                      <SelectItem value="all">Toutes les {schema.group.plural}</SelectItem>
                       {uniqueRegions.map((region) => (
                         <SelectItem key={region} value={region}>
                           {region}
@@ -172,28 +469,64 @@ const Dashboard = () => {
                       ))}
                     </SelectContent>
                   </Select>
-                  <Select value={statusFilter} onValueChange={handleStatusFilter}>
-                    <SelectTrigger className="w-full sm:w-48">
-                      <SelectValue placeholder="Statut" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">Tous les statuts</SelectItem>
-                      <SelectItem value="Libre">Libre</SelectItem>
-                      <SelectItem value="Partiellement libre">Partiellement libre</SelectItem>
-                      <SelectItem value="Pas libre">Pas libre</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Button variant="outline" size="sm">
-                    <Download className="h-4 w-4 mr-2" />
-                    Exporter
+                  {categoricalMetrics(metrics).map((metric) => (
+                    <Select
+                      key={metric.field}
+                      value={categoryValue(columnFilters[metric.field])}
+                      onValueChange={(value) => handleColumnFilter(metric.field, { kind: "category", value })}
+                    >
+                      <SelectTrigger className="w-full sm:w-48">
+                        <SelectValue placeholder={metric.name} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">{metric.name} : toutes les valeurs</SelectItem>
+                        {metric.categories.map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {category}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ))}
+                  <AdvancedFilters
+                    metrics={[...dimensions, ...metrics]}
+                    filters={columnFilters}
+                    onChange={handleColumnFilter}
+                    onClear={handleClearFilters}
+                  />
+                  <ExportDialog context={exportContext} name={datasetName} />
+                  <ReportButton context={exportContext} name={datasetName} />
+                  <SnapshotButton context={exportContext} view={activeView} name={datasetName} />
+                  <Button variant="outline" size="sm" onClick={handleCopyLink}>
+                    <Link2 className="h-4 w-4 mr-2" />
+                    Copier le lien
                   </Button>
                 </div>
               </CardContent>
             </Card>
 
             {/* Data Display */}
-            {activeView === "table" && <DataTable data={filteredData} />}
-            {activeView === "charts" && <DataVisualization data={filteredData} />}
+            {activeView === "table" && (
+              <DataTable
+                data={filteredData}
+                schema={schema}
+                metrics={metrics}
+                taxonomy={taxonomy}
+                sort={tableSort}
+                onSortChange={handleTableSortChange}
+                page={tablePage}
+                onPageChange={(page) => showView({ page })}
+              />
+            )}
+            {activeView === "charts" && (
+              <DataVisualization
+                data={filteredData}
+                schema={schema}
+                metrics={metrics}
+                taxonomy={taxonomy}
+                caption={describeSource(exportContext, datasetName)}
+              />
+            )}
           </>
         )}
       </div>
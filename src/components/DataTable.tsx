@@ -10,72 +10,164 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { ArrowUpDown, ChevronLeft, ChevronRight } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { AlertTriangle, ArrowUpDown, ChevronLeft, ChevronRight } from "lucide-react";
 import { FreedomData } from "./Dashboard";
+import { hasStatusContradiction } from "@/lib/statusRules";
+import { MetricScale, metricValue, qualityPercent, rankRecords, recordField } from "@/lib/metrics";
+import {
+  CategoricalMetric,
+  DatasetSchema,
+  MetricDefinition,
+  NumericMetric,
+  numericMetrics,
+  primaryMetric,
+} from "@/lib/schema";
+import { RegionTaxonomy, recordRegion } from "@/lib/regions";
+import { typedLabel } from "@/lib/columnTypes";
+import { formatCell } from "@/lib/workbook";
+import { SOURCE_ROW, SOURCE_SHEET, TableSort, TableView, sortRecords, sourceColumns, sourceValue } from "@/lib/table";
 
 interface DataTableProps {
   data: FreedomData[];
+  schema: DatasetSchema;
+  metrics: MetricDefinition[];
+  taxonomy: RegionTaxonomy;
+  sort: TableSort;
+  onSortChange: (sort: TableSort) => void;
+  // From 1; pages past the end show the last one
+  page: number;
+  onPageChange: (page: number) => void;
 }
 
-export const DataTable: React.FC<DataTableProps> = ({ data }) => {
-  const [sortColumn, setSortColumn] = useState<keyof FreedomData | null>(null);
-  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage] = useState(10);
+const BAR_CLASSES = ["bg-chart-1", "bg-chart-2", "bg-chart-3", "bg-chart-4", "bg-chart-5"];
+
+const TONE_BADGE_CLASSES = {
+  positive: "bg-success hover:bg-success/90",
+  neutral: "border-warning text-warning",
+  negative: "",
+};
 
-  const sortedData = useMemo(() => {
-    if (!sortColumn) return data;
+// Score badges are coloured by thirds of the scale, from its worst to its best end
+const qualityBadgeClass = (quality: number) =>
+  quality >= 200 / 3 ? "border-success text-success" : quality >= 100 / 3 ? "border-warning text-warning" : "border-destructive text-destructive";
 
-    return [...data].sort((a, b) => {
-      const aValue = a[sortColumn];
-      const bValue = b[sortColumn];
+export const DataTable: React.FC<DataTableProps> = ({ data, schema, metrics, taxonomy, sort, onSortChange, page, onPageChange }) => {
+  const primary = useMemo(() => primaryMetric(schema, metrics), [schema, metrics]);
+  // Bars take the chart colours in order, the primary metric is shown as a badge
+  const barClasses = useMemo(
+    () =>
+      new Map(
+        numericMetrics(metrics)
+          .filter((metric) => metric !== primary)
+          .map((metric, index) => [metric.field, BAR_CLASSES[index % BAR_CLASSES.length]])
+      ),
+    [metrics, primary]
+  );
+
+  const { view } = sort;
+  const [itemsPerPage] = useState(10);
 
-      if (typeof aValue === "number" && typeof bValue === "number") {
-        return sortDirection === "asc" ? aValue - bValue : bValue - aValue;
-      }
+  const columns = useMemo(() => sourceColumns(data), [data]);
 
-      const aString = String(aValue).toLowerCase();
-      const bString = String(bValue).toLowerCase();
+  const sortedData = useMemo(() => sortRecords(data, sort, taxonomy), [data, sort, taxonomy]);
 
-      if (sortDirection === "asc") {
-        return aString < bString ? -1 : aString > bString ? 1 : 0;
-      } else {
-        return aString > bString ? -1 : aString < bString ? 1 : 0;
-      }
+  // Rank on the primary metric among the records of the same period
+  const ranks = useMemo(() => {
+    const merged = new Map<FreedomData, number>();
+    if (!primary) return merged;
+    const byTime = new Map<unknown, FreedomData[]>();
+    data.forEach((row) => {
+      const time = recordField(row, schema.time.field);
+      byTime.set(time, [...(byTime.get(time) ?? []), row]);
     });
-  }, [data, sortColumn, sortDirection]);
+    byTime.forEach((rows) => rankRecords(rows, primary).forEach((rank, row) => merged.set(row, rank)));
+    return merged;
+  }, [data, schema, primary]);
+
+  const totalPages = Math.ceil(sortedData.length / itemsPerPage);
+  const currentPage = Math.min(Math.max(page, 1), Math.max(totalPages, 1));
 
   const paginatedData = useMemo(() => {
     const startIndex = (currentPage - 1) * itemsPerPage;
     return sortedData.slice(startIndex, startIndex + itemsPerPage);
   }, [sortedData, currentPage, itemsPerPage]);
 
-  const totalPages = Math.ceil(sortedData.length / itemsPerPage);
+  const handleViewChange = (nextView: TableView) => {
+    onSortChange({ view: nextView, column: null, direction: "asc" });
+  };
 
-  const handleSort = (column: keyof FreedomData) => {
-    if (sortColumn === column) {
-      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
+  const handleSort = (column: string) => {
+    if (sort.column === column) {
+      onSortChange({ ...sort, direction: sort.direction === "asc" ? "desc" : "asc" });
     } else {
-      setSortColumn(column);
-      setSortDirection("asc");
+      // Score columns start with the freest countries, whichever way their scale reads
+      const scale = numericMetrics(metrics).find((candidate) => candidate.field === column);
+      onSortChange({ view, column, direction: view === "normalized" && scale?.polarity === "higher" ? "desc" : "asc" });
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "Libre":
-        return <Badge variant="default" className="bg-success hover:bg-success/90">Libre</Badge>;
-      case "Partiellement libre":
-        return <Badge variant="outline" className="border-warning text-warning">Partiellement libre</Badge>;
-      case "Pas libre":
-        return <Badge variant="destructive">Pas libre</Badge>;
-      default:
-        return <Badge variant="secondary">{status}</Badge>;
-    }
+  const categoryBadge = (row: FreedomData, metric: CategoricalMetric) => {
+    const category = typedLabel(recordField(row, metric.field));
+    if (!category) return <span className="text-muted-foreground">–</span>;
+    const tone = metric.tones?.[category];
+    const variant = tone === "positive" ? "default" : tone === "neutral" ? "outline" : tone === "negative" ? "destructive" : "secondary";
+    return (
+      <Badge variant={variant} className={tone ? TONE_BADGE_CLASSES[tone] : undefined}>
+        {category}
+      </Badge>
+    );
   };
 
-  const SortButton = ({ column, children }: { column: keyof FreedomData; children: React.ReactNode }) => (
+  const statusCell = (row: FreedomData, metric: CategoricalMetric) => (
+    <div className="flex items-center gap-1">
+      {categoryBadge(row, metric)}
+      {row.statusDerived && (
+        <span className="text-xs text-muted-foreground" title="Statut calculé à partir des scores">
+          calculé
+        </span>
+      )}
+      {hasStatusContradiction(row) && (
+        <AlertTriangle className="h-4 w-4 text-warning">
+          <title>{`Les scores indiquent « ${row.computedStatus} »`}</title>
+        </AlertTriangle>
+      )}
+    </div>
+  );
+
+  const scoreBar = (row: FreedomData, scale: NumericMetric, barClass: string) => {
+    const value = metricValue(row, scale);
+    if (value === null) return <span className="text-muted-foreground">–</span>;
+    return (
+      <div className="flex items-center space-x-2">
+        <span>{value}{scale.type === "percentage" ? " %" : ""}</span>
+        <div className="w-16 h-2 bg-muted rounded-full overflow-hidden">
+          <div
+            className={`h-full ${barClass} transition-all duration-300`}
+            style={{ width: `${qualityPercent(value, scale)}%` }}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const plainCell = (row: FreedomData, metric: MetricDefinition) => {
+    const label = typedLabel(recordField(row, metric.field));
+    if (!label) return <span className="text-muted-foreground">–</span>;
+    return <span className={metric.kind === "text" ? "block max-w-xs truncate" : "whitespace-nowrap"} title={label}>{label}</span>;
+  };
+
+  const primaryBadge = (row: FreedomData, scale: MetricScale) => {
+    const value = metricValue(row, scale);
+    if (value === null) return <span className="text-muted-foreground">–</span>;
+    return (
+      <Badge variant="outline" className={`font-mono ${qualityBadgeClass(qualityPercent(value, scale))}`}>
+        {value}
+      </Badge>
+    );
+  };
+
+  const SortButton = ({ column, children }: { column: string; children: React.ReactNode }) => (
     <Button
       variant="ghost"
       size="sm"
@@ -90,77 +182,109 @@ export const DataTable: React.FC<DataTableProps> = ({ data }) => {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Données détaillées</CardTitle>
-        <CardDescription>
-          {data.length} enregistrements au total • Page {currentPage} sur {totalPages}
-        </CardDescription>
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <CardTitle>Données détaillées</CardTitle>
+            <CardDescription>
+              {data.length} enregistrements au total • Page {currentPage} sur {totalPages}
+            </CardDescription>
+          </div>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={view}
+            onValueChange={(value) => value && handleViewChange(value as TableView)}
+          >
+            <ToggleGroupItem value="normalized">Données normalisées</ToggleGroupItem>
+            <ToggleGroupItem value="source">Colonnes sources</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
       </CardHeader>
       <CardContent>
-        <div className="rounded-md border">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>
-                  <SortButton column="country">Pays</SortButton>
-                </TableHead>
-                <TableHead>
-                  <SortButton column="region">Région</SortButton>
-                </TableHead>
-                <TableHead>
-                  <SortButton column="year">Année</SortButton>
-                </TableHead>
-                <TableHead>
-                  <SortButton column="status">Statut</SortButton>
-                </TableHead>
-                <TableHead>
-                  <SortButton column="politicalRights">Droits politiques</SortButton>
-                </TableHead>
-                <TableHead>
-                  <SortButton column="civilLiberties">Libertés civiles</SortButton>
-                </TableHead>
-                <TableHead>
-                  <SortButton column="totalScore">Score total</SortButton>
-                </TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {paginatedData.map((row, index) => (
-                <TableRow key={`${row.country}-${row.year}-${index}`} className="hover:bg-muted/50">
-                  <TableCell className="font-medium">{row.country}</TableCell>
-                  <TableCell className="text-muted-foreground">{row.region}</TableCell>
-                  <TableCell>{row.year}</TableCell>
-                  <TableCell>{getStatusBadge(row.status)}</TableCell>
-                  <TableCell>
-                    <div className="flex items-center space-x-2">
-                      <span>{row.politicalRights}</span>
-                      <div className="w-16 h-2 bg-muted rounded-full overflow-hidden">
-                        <div 
-                          className="h-full bg-chart-1 transition-all duration-300"
-                          style={{ width: `${(row.politicalRights / 7) * 100}%` }}
-                        />
-                      </div>
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex items-center space-x-2">
-                      <span>{row.civilLiberties}</span>
-                      <div className="w-16 h-2 bg-muted rounded-full overflow-hidden">
-                        <div 
-                          className="h-full bg-chart-2 transition-all duration-300"
-                          style={{ width: `${(row.civilLiberties / 7) * 100}%` }}
-                        />
-                      </div>
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <Badge variant="outline" className="font-mono">
-                      {row.totalScore}
-                    </Badge>
-                  </TableCell>
+        <div className="rounded-md border overflow-x-auto">
+          {view === "source" ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>
+                    <SortButton column={SOURCE_SHEET}>Source</SortButton>
+                  </TableHead>
+                  <TableHead>
+                    <SortButton column={SOURCE_ROW}>Ligne</SortButton>
+                  </TableHead>
+                  {columns.map((column) => (
+                    <TableHead key={column}>
+                      <SortButton column={column}>{column}</SortButton>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {paginatedData.map((row, index) => (
+                  <TableRow key={`${row.country}-${row.year}-${index}`} className="hover:bg-muted/50">
+                    <TableCell className="text-muted-foreground whitespace-nowrap">{formatCell(sourceValue(row, SOURCE_SHEET))}</TableCell>
+                    <TableCell className="font-mono">{formatCell(sourceValue(row, SOURCE_ROW))}</TableCell>
+                    {columns.map((column) => (
+                      <TableCell key={column} className="whitespace-nowrap">{formatCell(sourceValue(row, column))}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>
+                    <SortButton column={schema.entity.field}>{schema.entity.label}</SortButton>
+                  </TableHead>
+                  <TableHead>
+                    <SortButton column={schema.group.field}>{schema.group.label}</SortButton>
+                  </TableHead>
+                  <TableHead>
+                    <SortButton column={schema.time.field}>{schema.time.label}</SortButton>
+                  </TableHead>
+                  {metrics.map((metric) => (
+                    <TableHead key={metric.field}>
+                      <SortButton column={metric.field}>{metric.name}</SortButton>
+                    </TableHead>
+                  ))}
+                  {primary && <TableHead>Rang</TableHead>}
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+              </TableHeader>
+              <TableBody>
+                {paginatedData.map((row, index) => (
+                  <TableRow key={`${row.country}-${row.year}-${index}`} className="hover:bg-muted/50">
+                    <TableCell className="font-medium">
+                      {formatCell(recordField(row, schema.entity.field))}
+                      {row.iso3 && <span className="ml-2 text-xs font-normal text-muted-foreground">{row.iso3}</span>}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{recordRegion(row, taxonomy)}</TableCell>
+                    <TableCell>{formatCell(recordField(row, schema.time.field))}</TableCell>
+                    {metrics.map((metric) => (
+                      <TableCell key={metric.field}>
+                        {metric.kind === "categorical"
+                          ? metric.field === "status"
+                            ? statusCell(row, metric)
+                            : categoryBadge(row, metric)
+                          : metric.kind === "numeric"
+                            ? metric === primary
+                              ? primaryBadge(row, metric)
+                              : scoreBar(row, metric, barClasses.get(metric.field) ?? BAR_CLASSES[0])
+                            : plainCell(row, metric)}
+                      </TableCell>
+                    ))}
+                    {primary && (
+                      <TableCell className="font-mono text-muted-foreground">
+                        {ranks.has(row) ? (ranks.get(row) === 1 ? "1er" : `${ranks.get(row)}e`) : "–"}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
         </div>
 
         {/* Pagination */}
@@ -173,7 +297,7 @@ export const DataTable: React.FC<DataTableProps> = ({ data }) => {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+                onClick={() => onPageChange(Math.max(currentPage - 1, 1))}
                 disabled={currentPage === 1}
               >
                 <ChevronLeft className="h-4 w-4 mr-1" />
@@ -181,16 +305,16 @@ export const DataTable: React.FC<DataTableProps> = ({ data }) => {
               </Button>
               <div className="flex items-center space-x-1">
                 {Array.from({ length: Math.min(totalPages, 5) }, (_, i) => {
-                  const page = i + 1;
+                  const pageNumber = i + 1;
                   return (
                     <Button
-                      key={page}
-                      variant={currentPage === page ? "default" : "outline"}
+                      key={pageNumber}
+                      variant={currentPage === pageNumber ? "default" : "outline"}
                       size="sm"
-                      onClick={() => setCurrentPage(page)}
+                      onClick={() => onPageChange(pageNumber)}
                       className="w-8 h-8 p-0"
                     >
-                      {page}
+                      {pageNumber}
                     </Button>
                   );
                 })}
@@ -198,7 +322,7 @@ export const DataTable: React.FC<DataTableProps> = ({ data }) => {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+                onClick={() => onPageChange(Math.min(currentPage + 1, totalPages))}
                 disabled={currentPage === totalPages}
               >
                 Suivant
@@ -2,68 +2,111 @@ import { useMemo } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line, Legend } from "recharts";
 import { FreedomData } from "./Dashboard";
+import { ChartActions } from "./ChartActions";
+import { ColumnChart } from "./ColumnChart";
+import { averageMetric, axisDomain, compareQuality, recordField } from "@/lib/metrics";
+import { RegionTaxonomy, recordRegion } from "@/lib/regions";
+import { typedLabel } from "@/lib/columnTypes";
+import { DatasetSchema, MetricDefinition, categoricalMetrics, numericMetrics, primaryMetric } from "@/lib/schema";
 
 interface DataVisualizationProps {
   data: FreedomData[];
+  schema: DatasetSchema;
+  metrics: MetricDefinition[];
+  taxonomy: RegionTaxonomy;
+  // Off when the charts are drawn for the PDF report, which captures them at once
+  animated?: boolean;
+  // Printed under exported charts, see describeSource
+  caption?: string[];
 }
 
 const COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
 
-export const DataVisualization: React.FC<DataVisualizationProps> = ({ data }) => {
-  const statusDistribution = useMemo(() => {
-    const distribution = data.reduce((acc, item) => {
-      acc[item.status] = (acc[item.status] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+const roundAverage = (value: number | null) => (value === null ? null : Number(value.toFixed(1)));
+
+// Chart rows hold averages under positional keys, since metric fields may contain dots that recharts reads as paths
+const averageKey = (index: number) => `avg${index}`;
 
-    return Object.entries(distribution).map(([name, value]) => ({
-      name,
-      value,
-      percentage: ((value / data.length) * 100).toFixed(1)
-    }));
-  }, [data]);
+export const DataVisualization: React.FC<DataVisualizationProps> = ({ data, schema, metrics, taxonomy, animated = true, caption = [] }) => {
+  // Metrics compared side by side: every numeric one but the primary, unless it is alone
+  const comparedMetrics = useMemo(() => {
+    const primary = primaryMetric(schema, metrics);
+    const others = numericMetrics(metrics).filter((metric) => metric !== primary);
+    return others.length > 0 ? others : primary ? [primary] : [];
+  }, [schema, metrics]);
+  const comparedDomain = axisDomain(comparedMetrics);
+  // When every compared scale reads "lower is better" the axis is flipped so that up always means better
+  const reversedAxis = comparedMetrics.length > 0 && comparedMetrics.every((metric) => metric.polarity === "lower");
+  const metricNames = comparedMetrics.map((metric) => `${metric.name} (${metric.label})`);
+
+  const categoryDistributions = useMemo(
+    () =>
+      categoricalMetrics(metrics).map((metric) => {
+        const distribution = data.reduce((acc, item) => {
+          const category = typedLabel(recordField(item, metric.field)) || "–";
+          acc[category] = (acc[category] || 0) + 1;
+          return acc;
+        }, {} as Record<string, number>);
+
+        return {
+          metric,
+          data: Object.entries(distribution).map(([name, value]) => ({
+            name,
+            value,
+            percentage: ((value / data.length) * 100).toFixed(1)
+          }))
+        };
+      }),
+    [data, metrics]
+  );
 
   const regionDistribution = useMemo(() => {
     const distribution = data.reduce((acc, item) => {
-      acc[item.region] = (acc[item.region] || 0) + 1;
+      const region = recordRegion(item, taxonomy);
+      acc[region] = (acc[region] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
 
     return Object.entries(distribution)
-      .map(([name, count]) => ({
-        name: name.length > 15 ? name.substring(0, 15) + "..." : name,
-        fullName: name,
-        count,
-        avgPolitical: data.filter(d => d.region === name).reduce((sum, d) => sum + d.politicalRights, 0) / data.filter(d => d.region === name).length,
-        avgCivil: data.filter(d => d.region === name).reduce((sum, d) => sum + d.civilLiberties, 0) / data.filter(d => d.region === name).length
-      }))
+      .map(([name, count]) => {
+        const items = data.filter(d => recordRegion(d, taxonomy) === name);
+        return {
+          name: name.length > 15 ? name.substring(0, 15) + "..." : name,
+          fullName: name,
+          count,
+          ...Object.fromEntries(comparedMetrics.map((metric, index) => [averageKey(index), roundAverage(averageMetric(items, metric))]))
+        };
+      })
       .sort((a, b) => b.count - a.count)
       .slice(0, 10);
-  }, [data]);
+  }, [data, comparedMetrics, taxonomy]);
+
+  // Same regions ranked from the best to the worst on the first compared metric
+  const regionRanking = useMemo(() => {
+    const ranked = comparedMetrics[0];
+    if (!ranked) return regionDistribution;
+    const key = averageKey(0);
+    return [...regionDistribution].sort((a, b) => {
+      const aValue = a[key] as number | null;
+      const bValue = b[key] as number | null;
+      if (aValue === null || bValue === null) return aValue === null ? 1 : -1;
+      return compareQuality(bValue, aValue, ranked);
+    });
+  }, [regionDistribution, comparedMetrics]);
 
   const yearlyTrends = useMemo(() => {
-    const yearData = data.reduce((acc, item) => {
-      const year = item.year;
-      if (!acc[year]) {
-        acc[year] = { year, totalCountries: 0, avgPolitical: 0, avgCivil: 0, libre: 0, partLibre: 0, pasLibre: 0 };
-      }
-      acc[year].totalCountries += 1;
-      acc[year].avgPolitical += item.politicalRights;
-      acc[year].avgCivil += item.civilLiberties;
-      
-      if (item.status === "Libre") acc[year].libre += 1;
-      else if (item.status === "Partiellement libre") acc[year].partLibre += 1;
-      else acc[year].pasLibre += 1;
-      
-      return acc;
-    }, {} as Record<number, any>);
+    const times = [...new Set(data.map(item => recordField(item, schema.time.field)))].sort((a, b) => Number(a) - Number(b));
 
-    return Object.values(yearData).map((item: any) => ({
-      ...item,
-      avgPolitical: (item.avgPolitical / item.totalCountries).toFixed(1),
-      avgCivil: (item.avgCivil / item.totalCountries).toFixed(1)
-    })).sort((a: any, b: any) => a.year - b.year);
-  }, [data]);
+    return times.map(time => {
+      const items = data.filter(item => recordField(item, schema.time.field) === time);
+      return {
+        year: time,
+        totalCountries: items.length,
+        // Averages skip rows without a value in the selected scale
+        ...Object.fromEntries(comparedMetrics.map((metric, index) => [averageKey(index), roundAverage(averageMetric(items, metric))]))
+      };
+    });
+  }, [data, schema, comparedMetrics]);
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -72,7 +115,7 @@ export const DataVisualization: React.FC<DataVisualizationProps> = ({ data }) =>
           <p className="font-medium">{label}</p>
           {payload.map((entry: any, index: number) => (
             <p key={index} style={{ color: entry.color }} className="text-sm">
-              {entry.dataKey}: {entry.value}
+              {entry.name ?? entry.dataKey}: {entry.value}
             </p>
           ))}
         </div>
@@ -83,40 +126,49 @@ export const DataVisualization: React.FC<DataVisualizationProps> = ({ data }) =>
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-      {/* Status Distribution Pie Chart */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Répartition par statut de liberté</CardTitle>
-          <CardDescription>Distribution globale des pays selon leur niveau de liberté</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <ResponsiveContainer width="100%" height={300}>
-            <PieChart>
-              <Pie
-                data={statusDistribution}
-                cx="50%"
-                cy="50%"
-                labelLine={false}
-                label={({ name, percentage }) => `${name}: ${percentage}%`}
-                outerRadius={80}
-                fill="#8884d8"
-                dataKey="value"
-              >
-                {statusDistribution.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                ))}
-              </Pie>
-              <Tooltip content={<CustomTooltip />} />
-            </PieChart>
-          </ResponsiveContainer>
-        </CardContent>
-      </Card>
+      {/* Category Distribution Pie Charts */}
+      {categoryDistributions.map(({ metric, data: distribution }) => (
+        <Card key={metric.field} data-chart-card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Répartition par {metric.name.toLowerCase()}</CardTitle>
+              <CardDescription>Distribution globale des {schema.entity.plural} selon leur {metric.name.toLowerCase()}</CardDescription>
+            </div>
+            <ChartActions caption={caption} />
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <PieChart>
+                <Pie
+                  isAnimationActive={animated}
+                  data={distribution}
+                  cx="50%"
+                  cy="50%"
+                  labelLine={false}
+                  label={({ name, percentage }) => `${name}: ${percentage}%`}
+                  outerRadius={80}
+                  fill="#8884d8"
+                  dataKey="value"
+                >
+                  {distribution.map((entry, index) => (
+                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                  ))}
+                </Pie>
+                <Tooltip content={<CustomTooltip />} />
+              </PieChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      ))}
 
       {/* Region Distribution Bar Chart */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Répartition par région</CardTitle>
-          <CardDescription>Nombre de pays et scores moyens par région</CardDescription>
+      <Card data-chart-card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Répartition par {schema.group.label.toLowerCase()}</CardTitle>
+            <CardDescription>Nombre de {schema.entity.plural} par {schema.group.label.toLowerCase()}</CardDescription>
+          </div>
+          <ChartActions caption={caption} />
         </CardHeader>
         <CardContent>
           <ResponsiveContainer width="100%" height={300}>
@@ -131,75 +183,93 @@ export const DataVisualization: React.FC<DataVisualizationProps> = ({ data }) =>
               />
               <YAxis />
               <Tooltip content={<CustomTooltip />} />
-              <Bar dataKey="count" fill="hsl(var(--chart-1))" radius={[4, 4, 0, 0]} />
+              <Bar isAnimationActive={animated} dataKey="count" fill="hsl(var(--chart-1))" radius={[4, 4, 0, 0]} />
             </BarChart>
           </ResponsiveContainer>
         </CardContent>
       </Card>
 
-      {/* Rights Comparison by Region */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Comparaison des droits par région</CardTitle>
-          <CardDescription>Scores moyens des droits politiques vs libertés civiles</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={regionDistribution} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-              <XAxis 
-                dataKey="name" 
-                tick={{ fontSize: 12 }}
-                angle={-45}
-                textAnchor="end"
-                height={80}
-              />
-              <YAxis domain={[0, 7]} />
-              <Tooltip content={<CustomTooltip />} />
-              <Legend />
-              <Bar dataKey="avgPolitical" fill="hsl(var(--chart-1))" name="Droits politiques" radius={[2, 2, 0, 0]} />
-              <Bar dataKey="avgCivil" fill="hsl(var(--chart-2))" name="Libertés civiles" radius={[2, 2, 0, 0]} />
-            </BarChart>
-          </ResponsiveContainer>
-        </CardContent>
-      </Card>
+      {/* Metrics Comparison by Region */}
+      {comparedMetrics.length > 0 && (
+        <Card data-chart-card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Comparaison des indicateurs par {schema.group.label.toLowerCase()}</CardTitle>
+              <CardDescription>
+                Moyennes de {comparedMetrics.map((metric) => metric.name.toLowerCase()).join(", ")}, {schema.group.plural} classées
+                de la meilleure à la moins bonne
+              </CardDescription>
+            </div>
+            <ChartActions caption={caption} />
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={regionRanking} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis 
+                  dataKey="name" 
+                  tick={{ fontSize: 12 }}
+                  angle={-45}
+                  textAnchor="end"
+                  height={80}
+                />
+                <YAxis domain={comparedDomain} reversed={reversedAxis} />
+                <Tooltip content={<CustomTooltip />} />
+                <Legend />
+                {comparedMetrics.map((metric, index) => (
+                  <Bar
+                    key={metric.field}
+                    isAnimationActive={animated}
+                    dataKey={averageKey(index)}
+                    fill={COLORS[index % COLORS.length]}
+                    name={metricNames[index]}
+                    radius={[2, 2, 0, 0]}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Yearly Trends */}
-      {yearlyTrends.length > 1 && (
-        <Card>
-          <CardHeader>
-            <CardTitle>Évolution temporelle</CardTitle>
-            <CardDescription>Évolution des scores moyens au fil des années</CardDescription>
+      {yearlyTrends.length > 1 && comparedMetrics.length > 0 && (
+        <Card data-chart-card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Évolution temporelle</CardTitle>
+              <CardDescription>Évolution des moyennes au fil des {schema.time.plural}</CardDescription>
+            </div>
+            <ChartActions caption={caption} />
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
               <LineChart data={yearlyTrends} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                 <XAxis dataKey="year" />
-                <YAxis domain={[0, 7]} />
+                <YAxis domain={comparedDomain} reversed={reversedAxis} />
                 <Tooltip content={<CustomTooltip />} />
                 <Legend />
-                <Line 
-                  type="monotone" 
-                  dataKey="avgPolitical" 
-                  stroke="hsl(var(--chart-1))" 
-                  strokeWidth={3} 
-                  name="Droits politiques"
-                  dot={{ fill: "hsl(var(--chart-1))", strokeWidth: 2, r: 4 }}
-                />
-                <Line 
-                  type="monotone" 
-                  dataKey="avgCivil" 
-                  stroke="hsl(var(--chart-2))" 
-                  strokeWidth={3} 
-                  name="Libertés civiles"
-                  dot={{ fill: "hsl(var(--chart-2))", strokeWidth: 2, r: 4 }}
-                />
+                {comparedMetrics.map((metric, index) => (
+                  <Line
+                    key={metric.field}
+                    isAnimationActive={animated}
+                    type="monotone" 
+                    dataKey={averageKey(index)} 
+                    stroke={COLORS[index % COLORS.length]} 
+                    strokeWidth={3} 
+                    name={metricNames[index]}
+                    dot={{ fill: COLORS[index % COLORS.length], strokeWidth: 2, r: 4 }}
+                  />
+                ))}
               </LineChart>
             </ResponsiveContainer>
           </CardContent>
         </Card>
       )}
+
+      {/* Any column, in the charts its type allows */}
+      <ColumnChart data={data} schema={schema} metrics={metrics} taxonomy={taxonomy} animated={animated} caption={caption} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, FilePlus2, FolderOpen, Library, Pencil, Trash2 } from "lucide-react";
+import { DatasetSummary } from "@/lib/datasetStore";
+
+interface DatasetLibraryProps {
+  datasets: DatasetSummary[];
+  current: DatasetSummary | null;
+  onOpen: (id: string) => Promise<void>;
+  onRename: (id: string, name: string) => Promise<void>;
+  onDuplicate: (id: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onNew: () => void;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" });
+
+export const DatasetLibrary: React.FC<DatasetLibraryProps> = ({
+  datasets,
+  current,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onNew,
+}) => {
+  const [open, setOpen] = useState(false);
+  // Dataset whose name is being edited, with the name typed so far
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const { toast } = useToast();
+
+  // Browsers may refuse storage, in private browsing or when the quota is reached
+  const run = async (action: Promise<void>, failure: string) => {
+    try {
+      await action;
+    } catch {
+      toast({ title: failure, description: "Le stockage du navigateur est indisponible ou plein.", variant: "destructive" });
+    }
+  };
+
+  const commitRename = () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    setEditing(null);
+    if (name) run(onRename(editing.id, name), "Renommage impossible");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Library className="h-4 w-4 mr-2" />
+          Bibliothèque
+          {datasets.length > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {datasets.length}
+            </Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Jeux de données enregistrés</DialogTitle>
+          <DialogDescription>
+            Chaque import est enregistré dans ce navigateur. Le dernier jeu ouvert est rouvert automatiquement au
+            prochain chargement de la page.
+          </DialogDescription>
+        </DialogHeader>
+
+        {datasets.length === 0 ? (
+          <p className="rounded-lg border p-3 text-sm text-muted-foreground">Aucun jeu de données enregistré pour l'instant.</p>
+        ) : (
+          <div className="max-h-[28rem] overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nom</TableHead>
+                  <TableHead>Importé le</TableHead>
+                  <TableHead>Fichiers source</TableHead>
+                  <TableHead className="text-right">Lignes</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {datasets.map((dataset) => (
+                  <TableRow key={dataset.id}>
+                    <TableCell className="font-medium">
+                      {editing?.id === dataset.id ? (
+                        <Input
+                          autoFocus
+                          className="h-8"
+                          value={editing.name}
+                          onChange={(event) => setEditing({ id: dataset.id, name: event.target.value })}
+                          onBlur={commitRename}
+                          onKeyDown={(event) => {
+                            if (event.key === "Enter") commitRename();
+                            if (event.key === "Escape") setEditing(null);
+                          }}
+                        />
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          {dataset.name}
+                          {current?.id === dataset.id && <Badge variant="outline">Ouvert</Badge>}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDate(dataset.importedAt)}</TableCell>
+                    <TableCell className="max-w-[14rem] truncate text-muted-foreground">
+                      {dataset.sourceFiles.join(", ") || "–"}
+                    </TableCell>
+                    <TableCell className="text-right">{dataset.rowCount}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Ouvrir"
+                          onClick={() => run(onOpen(dataset.id).then(() => setOpen(false)), "Ouverture impossible")}
+                        >
+                          <FolderOpen className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Renommer"
+                          onClick={() => setEditing({ id: dataset.id, name: dataset.name })}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Dupliquer"
+                          onClick={() => run(onDuplicate(dataset.id), "Duplication impossible")}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" title="Supprimer">
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Supprimer « {dataset.name} » ?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Le jeu de données et ses {dataset.rowCount} lignes seront effacés de ce navigateur.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Annuler</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => run(onDelete(dataset.id), "Suppression impossible")}>
+                                Supprimer
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            onClick={() => {
+              onNew();
+              setOpen(false);
+            }}
+          >
+            <FilePlus2 className="h-4 w-4 mr-2" />
+            Nouveau jeu de données
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
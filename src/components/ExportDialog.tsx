@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Download } from "lucide-react";
+import { ExportContext, ExportFormat, ExportOptions, exportData } from "@/lib/export";
+import { TableView } from "@/lib/table";
+
+interface ExportDialogProps {
+  context: ExportContext;
+  name: string;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV (séparateur point-virgule)" },
+  { format: "xlsx", label: "Excel (.xlsx), avec une feuille décrivant les filtres" },
+];
+
+const VIEWS: { view: TableView; label: string }[] = [
+  { view: "normalized", label: "Données normalisées" },
+  { view: "source", label: "Colonnes sources, telles qu'importées" },
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ context, name }) => {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<ExportOptions>({
+    format: "xlsx",
+    view: "normalized",
+    visibleOnly: true,
+    keepSort: true,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4 mr-2" />
+          Exporter
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Exporter les données filtrées</DialogTitle>
+          <DialogDescription>{context.records.length} lignes correspondent aux filtres actuels.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup
+              value={options.format}
+              onValueChange={(value) => setOptions((prev) => ({ ...prev, format: value as ExportFormat }))}
+              className="gap-2"
+            >
+              {FORMATS.map(({ format, label }) => (
+                <div key={format} className="flex items-center gap-2">
+                  <RadioGroupItem value={format} id={`export-format-${format}`} />
+                  <Label htmlFor={`export-format-${format}`} className="font-normal cursor-pointer">
+                    {label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Colonnes</Label>
+            <RadioGroup
+              value={options.view}
+              onValueChange={(value) => setOptions((prev) => ({ ...prev, view: value as TableView }))}
+              className="gap-2"
+            >
+              {VIEWS.map(({ view, label }) => (
+                <div key={view} className="flex items-center gap-2">
+                  <RadioGroupItem value={view} id={`export-view-${view}`} />
+                  <Label htmlFor={`export-view-${view}`} className="font-normal cursor-pointer">
+                    {label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="export-visible-only"
+                checked={options.visibleOnly}
+                disabled={options.view === "source"}
+                onCheckedChange={(checked) => setOptions((prev) => ({ ...prev, visibleOnly: checked === true }))}
+              />
+              <Label htmlFor="export-visible-only" className="font-normal cursor-pointer">
+                Colonnes visibles du tableau uniquement
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="export-keep-sort"
+                checked={options.keepSort}
+                onCheckedChange={(checked) => setOptions((prev) => ({ ...prev, keepSort: checked === true }))}
+              />
+              <Label htmlFor="export-keep-sort" className="font-normal cursor-pointer">
+                Conserver l'ordre de tri du tableau
+              </Label>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              disabled={context.records.length === 0}
+              onClick={() => {
+                exportData(context, options, name);
+                setOpen(false);
+              }}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Télécharger
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
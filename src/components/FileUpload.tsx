@@ -1,119 +1,350 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { useDropzone } from "react-dropzone";
-import * as XLSX from "xlsx";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Upload, FileSpreadsheet, CheckCircle, AlertCircle } from "lucide-react";
+import { Upload, FileSpreadsheet, CheckCircle, AlertCircle, X } from "lucide-react";
 import { FreedomData } from "./Dashboard";
+import { SheetPicker } from "./SheetPicker";
+import { ColumnMapper } from "./ColumnMapper";
+import { MappedSheet, ValidationReport } from "./ValidationReport";
+import { ConflictResolver } from "./ConflictResolver";
+import { UnpivotStep } from "./UnpivotStep";
+import { ColumnMapping, headerSignature, saveMapping } from "@/lib/mapping";
+import { applyCountryCodes, loadCountryAliases } from "@/lib/countries";
+import { MergeResult, RecordBatch, mergeBatches, resolveConflicts } from "@/lib/merge";
+import { RowValidation, validateSheets } from "@/lib/validation";
+import { ACCEPTED_FILE_TYPES, SUPPORTED_EXTENSIONS_LABEL, isSupportedFile } from "@/lib/formats";
+import { UnpivotOptions, unpivotSheet } from "@/lib/unpivot";
+import { SheetSummary, isTrimmedRegion, sheetLabel } from "@/lib/workbook";
 import { useToast } from "@/hooks/use-toast";
+import { ImportCancelledError, ImportProgress, useImportWorker } from "@/hooks/use-import-worker";
 
 interface FileUploadProps {
   onDataLoad: (data: FreedomData[]) => void;
 }
 
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} Ko` : `${(bytes / (1024 * 1024)).toFixed(1)} Mo`;
+
+// Reading covers the first 40% of the bar, row conversion the second half
+const progressPercent = ({ phase, loaded, total }: ImportProgress) => {
+  const ratio = total > 0 ? loaded / total : 0;
+  switch (phase) {
+    case "reading":
+      return Math.round(ratio * 40);
+    case "parsing":
+      return 45;
+    default:
+      return Math.round(50 + ratio * 50);
+  }
+};
+
+const progressLabel = ({ phase, loaded, total }: ImportProgress) => {
+  switch (phase) {
+    case "reading":
+      return `Lecture du fichier : ${formatBytes(loaded)} / ${formatBytes(total)}`;
+    case "parsing":
+      return "Analyse du fichier...";
+    default:
+      return `Conversion des lignes : ${loaded.toLocaleString("fr-FR")} / ${total.toLocaleString("fr-FR")}`;
+  }
+};
+
+const sheetSignature = (sheet: SheetSummary) => headerSignature(sheet.headers);
+
+// Sheets are listed when a file offers a choice, or when titles or footnotes were trimmed and the range deserves a check
+const needsSheetPicker = (sheets: SheetSummary[]) =>
+  new Set(sheets.map((sheet) => sheet.fileName)).size < sheets.length || sheets.some(isTrimmedRegion);
+
+const toMappedSheet = (sheet: SheetSummary, mapping: ColumnMapping): MappedSheet => ({
+  label: sheetLabel(sheet),
+  rows: sheet.rows,
+  mapping,
+  origin: { file: sheet.fileName, sheet: sheet.name, rowNumbers: sheet.rowNumbers },
+});
+
 export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoad }) => {
   const [uploading, setUploading] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [currentFile, setCurrentFile] = useState<{ index: number; count: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Unsupported files of the last drop, reported through every step of the import of the others
+  const [skippedFiles, setSkippedFiles] = useState<string[]>([]);
   const [success, setSuccess] = useState(false);
+  const [sheets, setSheets] = useState<SheetSummary[] | null>(null);
+  const [selectedSheets, setSelectedSheets] = useState<SheetSummary[] | null>(null);
+  const [mappings, setMappings] = useState<Record<string, ColumnMapping>>({});
+  const [mappingStep, setMappingStep] = useState(0);
+  const [unpivoting, setUnpivoting] = useState(false);
+  const [validation, setValidation] = useState<RowValidation[] | null>(null);
+  const [mergeResult, setMergeResult] = useState<MergeResult | null>(null);
   const { toast } = useToast();
+  const { parseFile, transformBatches, cancel } = useImportWorker(setProgress);
+
+  // Sheets sharing the same headers are mapped once, in the order they were selected
+  const signatures = useMemo(
+    () => [...new Set((selectedSheets ?? []).map(sheetSignature))],
+    [selectedSheets]
+  );
+
+  const mappedSheets = useMemo<MappedSheet[]>(
+    () => (selectedSheets ?? []).map((sheet) => toMappedSheet(sheet, mappings[sheetSignature(sheet)])),
+    [selectedSheets, mappings]
+  );
+
+  const resetSteps = useCallback(() => {
+    setSheets(null);
+    setSelectedSheets(null);
+    setMappings({});
+    setMappingStep(0);
+    setUnpivoting(false);
+    setValidation(null);
+    setMergeResult(null);
+    setProgress(null);
+    setCurrentFile(null);
+  }, []);
+
+  const failImport = useCallback((err: unknown) => {
+    setUploading(false);
+    resetSteps();
+
+    if (err instanceof ImportCancelledError) {
+      toast({ title: "Import annulé" });
+      return;
+    }
+
+    setError("Erreur lors du traitement du fichier. Vérifiez son format.");
+    toast({
+      title: "Erreur d'importation",
+      description: "Le fichier n'a pas pu être traité. Vérifiez le format.",
+      variant: "destructive",
+    });
+  }, [toast, resetSteps]);
+
+  const finishImport = useCallback((records: FreedomData[]) => {
+    const sourceCount = selectedSheets?.length ?? 0;
 
-  const processExcelFile = useCallback((file: File) => {
+    onDataLoad(records);
+    resetSteps();
+    setSuccess(true);
+    setUploading(false);
+    
+    // The dashboard replaces this component, the skipped files are recalled in the toast
+    const skipped = skippedFiles.length > 0 ? ` Fichiers ignorés : ${skippedFiles.join(", ")}.` : "";
+    toast({
+      title: "Fichier importé avec succès",
+      description: `${records.length} enregistrements ont été chargés depuis ${sourceCount} feuille(s).${skipped}`,
+    });
+
+    setTimeout(() => setSuccess(false), 3000);
+  }, [selectedSheets, skippedFiles, onDataLoad, toast, resetSteps]);
+
+  const completeImport = useCallback(async (sheetsToImport: MappedSheet[]) => {
     setUploading(true);
-    setError(null);
-    setProgress(0);
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        setProgress(30);
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: "array" });
-        
-        setProgress(60);
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet);
-
-        setProgress(80);
-        
-        // Transform data to match our interface
-        const transformedData: FreedomData[] = jsonData.map((row: any, index) => {
-          // Handle different possible column names and formats
-          const country = row.Pays || row.Country || row.country || `Pays ${index}`;
-          const region = row.Region || row.region || "Non spécifiée";
-          const year = parseInt(row.Année || row.Year || row.year || new Date().getFullYear());
-          const status = row.Status || row.status || "Non spécifié";
-          const politicalRights = parseInt(row["Droits politiques"] || row["Political Rights"] || row.politicalRights || 0);
-          const civilLiberties = parseInt(row["Libertés civiles"] || row["Civil Liberties"] || row.civilLiberties || 0);
-          
-          return {
-            country,
-            region,
-            year: isNaN(year) ? new Date().getFullYear() : year,
-            status: status as any,
-            politicalRights: isNaN(politicalRights) ? 0 : politicalRights,
-            civilLiberties: isNaN(civilLiberties) ? 0 : civilLiberties,
-            totalScore: (isNaN(politicalRights) ? 0 : politicalRights) + (isNaN(civilLiberties) ? 0 : civilLiberties),
-            ...row // Keep original data
-          };
-        });
-
-        setProgress(100);
-        onDataLoad(transformedData);
-        setSuccess(true);
-        setUploading(false);
-        
-        toast({
-          title: "Fichier importé avec succès",
-          description: `${transformedData.length} enregistrements ont été chargés.`,
-        });
-
-        setTimeout(() => setSuccess(false), 3000);
-      } catch (err) {
-        setError("Erreur lors du traitement du fichier. Vérifiez le format Excel.");
+
+    try {
+      const transformed = await transformBatches(sheetsToImport);
+
+      const aliases = loadCountryAliases();
+      const batches: RecordBatch[] = transformed.map((records, index) => ({
+        label: sheetsToImport[index].label,
+        records: applyCountryCodes(records, aliases),
+      }));
+
+      // A single sheet is loaded as is; merging only applies when several sources meet
+      if (batches.length === 1) {
+        finishImport(batches[0].records);
+        return;
+      }
+
+      const result = mergeBatches(batches);
+      if (result.conflicts.length > 0) {
         setUploading(false);
-        setProgress(0);
-        
-        toast({
-          title: "Erreur d'importation",
-          description: "Le fichier n'a pas pu être traité. Vérifiez le format.",
-          variant: "destructive",
-        });
+        setProgress(null);
+        setMergeResult(result);
+      } else {
+        finishImport(result.records);
       }
-    };
+    } catch (err) {
+      failImport(err);
+    }
+  }, [transformBatches, finishImport, failImport]);
 
-    reader.onerror = () => {
-      setError("Erreur lors de la lecture du fichier.");
-      setUploading(false);
-      setProgress(0);
-    };
+  const confirmMapping = useCallback((mapping: ColumnMapping) => {
+    if (!selectedSheets) return;
+    const signature = signatures[mappingStep];
+    const group = selectedSheets.filter((sheet) => sheetSignature(sheet) === signature);
+    saveMapping([...new Set(group.flatMap((sheet) => sheet.headers))], mapping);
 
-    reader.readAsArrayBuffer(file);
-  }, [onDataLoad, toast]);
+    const nextMappings = { ...mappings, [signature]: mapping };
+    setMappings(nextMappings);
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles.length > 0) {
-      const file = acceptedFiles[0];
-      if (file.type.includes("sheet") || file.name.endsWith(".xlsx") || file.name.endsWith(".xls")) {
-        processExcelFile(file);
-      } else {
-        setError("Veuillez sélectionner un fichier Excel (.xlsx ou .xls)");
+    if (mappingStep < signatures.length - 1) {
+      setMappingStep(mappingStep + 1);
+      return;
+    }
+
+    const sheetMappings = selectedSheets.map((sheet) => nextMappings[sheetSignature(sheet)]);
+    const problems = validateSheets(selectedSheets.map((sheet) => sheet.rows), sheetMappings);
+    if (problems.length === 0) {
+      completeImport(selectedSheets.map((sheet, index) => toMappedSheet(sheet, sheetMappings[index])));
+    } else {
+      setValidation(problems);
+    }
+  }, [selectedSheets, signatures, mappingStep, mappings, completeImport]);
+
+  // Every sheet sharing the current structure is converted, then mapped as a new structure
+  const confirmUnpivot = useCallback((options: UnpivotOptions) => {
+    if (!selectedSheets) return;
+    const signature = signatures[mappingStep];
+    const nextSheets = selectedSheets.map((sheet) =>
+      sheetSignature(sheet) === signature ? unpivotSheet(sheet, options) : sheet
+    );
+    const nextSignatures = [...new Set(nextSheets.map(sheetSignature))];
+    const converted = nextSheets.find((sheet, index) => sheetSignature(selectedSheets[index]) === signature);
+
+    setSelectedSheets(nextSheets);
+    setMappingStep(converted ? nextSignatures.indexOf(sheetSignature(converted)) : mappingStep);
+    setUnpivoting(false);
+  }, [selectedSheets, signatures, mappingStep]);
+
+  const selectSheets = useCallback((selected: SheetSummary[]) => {
+    setSelectedSheets(selected);
+    setMappings({});
+    setMappingStep(0);
+  }, []);
+
+  const processFiles = useCallback(async (files: File[]) => {
+    setUploading(true);
+    setError(null);
+
+    try {
+      const parsedSheets: SheetSummary[] = [];
+      for (const [index, file] of files.entries()) {
+        setCurrentFile({ index, count: files.length });
+        setProgress({ phase: "reading", loaded: 0, total: file.size });
+        parsedSheets.push(...(await parseFile(file)));
+      }
+
+      setSheets(parsedSheets);
+      if (!needsSheetPicker(parsedSheets)) {
+        selectSheets(parsedSheets);
       }
+      setUploading(false);
+      setProgress(null);
+      setCurrentFile(null);
+    } catch (err) {
+      failImport(err);
     }
-  }, [processExcelFile]);
+  }, [parseFile, selectSheets, failImport]);
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    const supported = acceptedFiles.filter((file) => isSupportedFile(file.name));
+    const rejected = acceptedFiles.filter((file) => !isSupportedFile(file.name));
+
+    setSkippedFiles(rejected.map((file) => file.name));
+    if (supported.length > 0) {
+      processFiles(supported);
+    }
+  }, [processFiles]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
-      'application/vnd.ms-excel': ['.xls']
-    },
-    multiple: false,
+    accept: ACCEPTED_FILE_TYPES,
+    multiple: true,
     disabled: uploading
   });
 
+  const skippedNotice = skippedFiles.length > 0 && (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>
+        Fichiers ignorés ({skippedFiles.join(", ")}). Formats pris en charge : {SUPPORTED_EXTENSIONS_LABEL}
+      </AlertDescription>
+    </Alert>
+  );
+
+  const withSkippedNotice = (step: React.ReactNode) =>
+    skippedNotice ? (
+      <div className="space-y-4">
+        {skippedNotice}
+        {step}
+      </div>
+    ) : (
+      step
+    );
+
+  if (!uploading && mergeResult) {
+    return withSkippedNotice(
+      <ConflictResolver
+        result={mergeResult}
+        onConfirm={(choices) => finishImport(resolveConflicts(mergeResult, choices))}
+        onCancel={resetSteps}
+      />
+    );
+  }
+
+  if (!uploading && validation) {
+    return withSkippedNotice(
+      <ValidationReport
+        sheets={mappedSheets}
+        problems={validation}
+        onConfirm={completeImport}
+        onBack={() => setValidation(null)}
+      />
+    );
+  }
+
+  if (!uploading && selectedSheets) {
+    const signature = signatures[mappingStep];
+    const group = selectedSheets.filter((sheet) => sheetSignature(sheet) === signature);
+    const headers = [...new Set(group.flatMap((sheet) => sheet.headers))];
+    const rows = group.flatMap((sheet) => sheet.rows);
+
+    if (unpivoting) {
+      return withSkippedNotice(
+        <UnpivotStep
+          key={signature}
+          headers={headers}
+          rows={rows}
+          onConfirm={confirmUnpivot}
+          onBack={() => setUnpivoting(false)}
+        />
+      );
+    }
+    const description = signatures.length > 1
+      ? `Structure ${mappingStep + 1} sur ${signatures.length} : ${group.map(sheetLabel).join(", ")}`
+      : group.length === 1 ? group[0].description : undefined;
+
+    return withSkippedNotice(
+      <ColumnMapper
+        key={signature}
+        headers={headers}
+        description={description}
+        rows={rows}
+        onConfirm={confirmMapping}
+        onUnpivot={() => setUnpivoting(true)}
+        onBack={() => {
+          if (mappingStep > 0) setMappingStep(mappingStep - 1);
+          else if (sheets && needsSheetPicker(sheets)) setSelectedSheets(null);
+          else resetSteps();
+        }}
+      />
+    );
+  }
+
+  if (!uploading && sheets) {
+    return withSkippedNotice(
+      <SheetPicker
+        sheets={sheets}
+        onConfirm={selectSheets}
+        onCancel={resetSteps}
+        onUpdateSheet={(index, sheet) => setSheets(sheets.map((current, i) => (i === index ? sheet : current)))}
+      />
+    );
+  }
+
   return (
     <div className="space-y-4">
       <div
@@ -141,14 +372,14 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoad }) => {
             ) : uploading ? (
               <p className="text-lg font-medium text-primary">Traitement en cours...</p>
             ) : isDragActive ? (
-              <p className="text-lg font-medium text-primary">Déposez le fichier ici...</p>
+              <p className="text-lg font-medium text-primary">Déposez les fichiers ici...</p>
             ) : (
               <>
                 <p className="text-lg font-medium text-foreground mb-2">
-                  Glissez-déposez votre fichier Excel ici
+                  Glissez-déposez vos fichiers de données ici
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  ou cliquez pour sélectionner un fichier (.xlsx, .xls)
+                  ou cliquez pour sélectionner un ou plusieurs fichiers ({SUPPORTED_EXTENSIONS_LABEL})
                 </p>
               </>
             )}
@@ -157,22 +388,33 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoad }) => {
           {!uploading && !success && (
             <Button variant="outline" size="lg">
               <FileSpreadsheet className="h-4 w-4 mr-2" />
-              Sélectionner un fichier
+              Sélectionner des fichiers
             </Button>
           )}
         </div>
       </div>
 
-      {uploading && (
+      {uploading && progress && (
         <div className="space-y-2">
           <div className="flex justify-between text-sm">
-            <span>Progression</span>
-            <span>{progress}%</span>
+            <span>
+              {currentFile && currentFile.count > 1 && `Fichier ${currentFile.index + 1} sur ${currentFile.count} • `}
+              {progressLabel(progress)}
+            </span>
+            <span>{progressPercent(progress)}%</span>
+          </div>
+          <Progress value={progressPercent(progress)} className="h-2" />
+          <div className="flex justify-end">
+            <Button variant="ghost" size="sm" onClick={cancel}>
+              <X className="h-4 w-4 mr-2" />
+              Annuler
+            </Button>
           </div>
-          <Progress value={progress} className="h-2" />
         </div>
       )}
 
+      {skippedNotice}
+
       {error && (
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
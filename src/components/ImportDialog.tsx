@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { CheckCircle, FilePlus2 } from "lucide-react";
+import { FreedomData } from "./Dashboard";
+import { FileUpload } from "./FileUpload";
+import { ImportMode, ImportSummary, applyImport } from "@/lib/merge";
+
+interface ImportDialogProps {
+  data: FreedomData[];
+  onImport: (data: FreedomData[]) => void;
+}
+
+const IMPORT_MODES: { mode: ImportMode; label: string; description: string }[] = [
+  {
+    mode: "upsert",
+    label: "Mettre à jour",
+    description: "Met à jour les couples (pays, année) existants et ajoute les autres lignes",
+  },
+  {
+    mode: "append",
+    label: "Ajouter",
+    description: "Ajoute toutes les lignes importées à la suite des données actuelles",
+  },
+  {
+    mode: "replace",
+    label: "Remplacer",
+    description: "Supprime les données actuelles et les remplace par le fichier importé",
+  },
+];
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ data, onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<ImportMode>("upsert");
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) setSummary(null);
+  };
+
+  const handleDataLoad = (incoming: FreedomData[]) => {
+    const result = applyImport(data, incoming, mode);
+    onImport(result.records);
+    setSummary(result.summary);
+  };
+
+  const summaryItems = summary
+    ? [
+        { label: "Lignes ajoutées", value: summary.added, className: "text-success" },
+        { label: "Lignes mises à jour", value: summary.updated, className: "text-primary" },
+        { label: "Lignes inchangées", value: summary.unchanged, className: "text-muted-foreground" },
+        ...(summary.removed > 0
+          ? [{ label: "Lignes supprimées", value: summary.removed, className: "text-destructive" }]
+          : []),
+      ]
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FilePlus2 className="h-4 w-4 mr-2" />
+          Importer
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importer des données</DialogTitle>
+          <DialogDescription>
+            {data.length} enregistrements sont actuellement chargés
+          </DialogDescription>
+        </DialogHeader>
+
+        {summary ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-success">
+              <CheckCircle className="h-5 w-5" />
+              <p className="font-medium">Import terminé</p>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {summaryItems.map((item) => (
+                <div key={item.label} className="rounded-lg border p-4 text-center">
+                  <div className={`text-2xl font-bold ${item.className}`}>{item.value}</div>
+                  <div className="text-xs text-muted-foreground">{item.label}</div>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setSummary(null)}>
+                Importer d'autres fichiers
+              </Button>
+              <Button onClick={() => handleOpenChange(false)}>Fermer</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="gap-3">
+              {IMPORT_MODES.map((option) => (
+                <div key={option.mode} className="flex items-start gap-3 rounded-lg border p-3">
+                  <RadioGroupItem value={option.mode} id={`import-mode-${option.mode}`} className="mt-1" />
+                  <Label htmlFor={`import-mode-${option.mode}`} className="cursor-pointer space-y-1">
+                    <span className="block font-medium">{option.label}</span>
+                    <span className="block text-sm font-normal text-muted-foreground">{option.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+            <FileUpload onDataLoad={handleDataLoad} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,173 @@
+import { useMemo, useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Crop, Wand2 } from "lucide-react";
+import { DataRegion, SheetSummary, applyRegion, detectDataRegion, formatCell, fullRegion, sheetLabel } from "@/lib/workbook";
+
+interface RegionPickerProps {
+  sheet: SheetSummary;
+  onConfirm: (region: DataRegion) => void;
+  onBack: () => void;
+}
+
+// Only the top and the bottom of long sheets are drawn, where titles and footnotes live
+const HEAD_ROWS = 40;
+const TAIL_ROWS = 15;
+const MAX_COLUMNS = 12;
+
+type RowRole = "skipped" | "header" | "data";
+
+const ROW_CLASSES: Record<RowRole, string> = {
+  skipped: "text-muted-foreground/60 line-through",
+  header: "bg-primary/10 font-medium",
+  data: "",
+};
+
+export const RegionPicker: React.FC<RegionPickerProps> = ({ sheet, onConfirm, onBack }) => {
+  const matrix = useMemo(() => sheet.matrix ?? [], [sheet.matrix]);
+  const firstRow = sheet.firstRow ?? 1;
+  const [region, setRegion] = useState<DataRegion>(() => sheet.region ?? fullRegion(matrix));
+
+  const preview = useMemo(() => applyRegion(sheet, region), [sheet, region]);
+  const columnCount = Math.min(
+    matrix.reduce<number>((max, cells) => Math.max(max, cells?.length ?? 0), 0),
+    MAX_COLUMNS
+  );
+
+  const shownRows = matrix.length > HEAD_ROWS + TAIL_ROWS
+    ? [...Array.from({ length: HEAD_ROWS }, (_, i) => i), null, ...Array.from({ length: TAIL_ROWS }, (_, i) => matrix.length - TAIL_ROWS + i)]
+    : matrix.map((_, i) => i);
+
+  const roleOf = (index: number): RowRole => {
+    if (index >= region.headerRow && index < region.headerRow + region.headerRowCount) return "header";
+    if (index > region.headerRow && index <= region.lastRow) return "data";
+    return "skipped";
+  };
+
+  // Inputs use spreadsheet row numbers, the region matrix indices
+  const clampIndex = (rowNumber: number) => Math.min(Math.max(rowNumber - firstRow, 0), Math.max(matrix.length - 1, 0));
+
+  const setHeaderRow = (index: number) => {
+    setRegion((prev) => ({ ...prev, headerRow: index, lastRow: Math.max(prev.lastRow, index + prev.headerRowCount - 1) }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Crop className="h-5 w-5 text-primary" />
+        <div>
+          <p className="font-medium">Plage de données : {sheetLabel(sheet)}</p>
+          <p className="text-sm text-muted-foreground">
+            Cliquez sur une ligne pour en faire l'en-tête. Les lignes barrées (titres, notes) ne seront pas importées.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="region-header">Ligne d'en-tête</Label>
+          <Input
+            id="region-header"
+            type="number"
+            min={firstRow}
+            value={region.headerRow + firstRow}
+            onChange={(event) => setHeaderRow(clampIndex(Number(event.target.value)))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Niveaux d'en-tête</Label>
+          <Select
+            value={String(region.headerRowCount)}
+            onValueChange={(value) => setRegion((prev) => ({ ...prev, headerRowCount: Number(value) }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">Une ligne</SelectItem>
+              <SelectItem value="2">Deux lignes (cellules fusionnées)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="region-last">Dernière ligne de données</Label>
+          <Input
+            id="region-last"
+            type="number"
+            min={firstRow}
+            value={region.lastRow + firstRow}
+            onChange={(event) => setRegion((prev) => ({ ...prev, lastRow: clampIndex(Number(event.target.value)) }))}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge variant="secondary">{preview.rows.length} lignes</Badge>
+        <Badge variant="outline">{preview.headers.length} colonnes</Badge>
+        <span className="text-muted-foreground truncate">{preview.headers.slice(0, 6).join(" • ")}</span>
+        <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setRegion(detectDataRegion(matrix))}>
+          <Wand2 className="h-4 w-4 mr-2" />
+          Détection automatique
+        </Button>
+      </div>
+
+      <div className="rounded-md border overflow-auto max-h-96">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-8 w-12 text-xs">#</TableHead>
+              {Array.from({ length: columnCount }, (_, column) => (
+                <TableHead key={column} className="h-8 text-xs">{String.fromCharCode(65 + column)}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shownRows.map((index) =>
+              index === null ? (
+                <TableRow key="gap">
+                  <TableCell colSpan={columnCount + 1} className="py-1 text-center text-xs text-muted-foreground">
+                    …
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <TableRow
+                  key={index}
+                  className={`cursor-pointer ${ROW_CLASSES[roleOf(index)]}`}
+                  onClick={() => setHeaderRow(index)}
+                >
+                  <TableCell className="py-1 text-xs font-mono text-muted-foreground">{index + firstRow}</TableCell>
+                  {Array.from({ length: columnCount }, (_, column) => (
+                    <TableCell key={column} className="py-1 text-xs whitespace-nowrap max-w-48 truncate">
+                      {formatCell(matrix[index]?.[column])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              )
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Retour
+        </Button>
+        <Button disabled={preview.rows.length === 0} onClick={() => onConfirm(region)}>
+          Appliquer la plage
+        </Button>
+      </div>
+    </div>
+  );
+};
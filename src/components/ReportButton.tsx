@@ -0,0 +1,70 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FileText, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { DataVisualization } from "./DataVisualization";
+import { ExportContext } from "@/lib/export";
+import { generateReport } from "@/lib/report";
+import { collectCharts } from "@/lib/svg";
+
+interface ReportButtonProps {
+  context: ExportContext;
+  name: string;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Recharts measures its container before drawing: wait until the number of charts stops changing
+const waitForCharts = async (container: { current: HTMLDivElement | null }) => {
+  let previous = -1;
+  for (let attempt = 0; attempt < 30; attempt++) {
+    await wait(100);
+    const count = container.current?.querySelectorAll(".recharts-wrapper > svg").length ?? 0;
+    if (count > 0 && count === previous) return;
+    previous = count;
+  }
+};
+
+// The charts are drawn again off screen, without animation, at a fixed width
+export const ReportButton: React.FC<ReportButtonProps> = ({ context, name }) => {
+  const [generating, setGenerating] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      await waitForCharts(containerRef);
+      const charts = containerRef.current ? collectCharts(containerRef.current) : [];
+      await generateReport(context, charts, name);
+    } catch {
+      toast({
+        title: "Rapport impossible",
+        description: "Le PDF n'a pas pu être généré.",
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" disabled={generating || context.records.length === 0} onClick={handleGenerate}>
+        {generating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+        Générer un rapport
+      </Button>
+      {generating && (
+        <div ref={containerRef} aria-hidden className="fixed top-0 -left-[10000px] w-[1100px] pointer-events-none">
+          <DataVisualization
+            data={context.records}
+            schema={context.schema}
+            metrics={context.metrics}
+            taxonomy={context.taxonomy}
+            animated={false}
+          />
+        </div>
+      )}
+    </>
+  );
+};
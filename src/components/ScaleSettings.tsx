@@ -0,0 +1,73 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Ruler } from "lucide-react";
+import {
+  METRIC_LABELS,
+  METRIC_SCALES,
+  POLARITY_LABELS,
+  Polarity,
+  PolaritySelection,
+  ScaleKind,
+  ScaleSelection,
+  ScoreMetric,
+} from "@/lib/metrics";
+
+interface ScaleSettingsProps {
+  scales: ScaleSelection;
+  polarities: PolaritySelection;
+  onScalesChange: (scales: ScaleSelection) => void;
+  onPolaritiesChange: (polarities: PolaritySelection) => void;
+}
+
+export const ScaleSettings: React.FC<ScaleSettingsProps> = ({ scales, polarities, onScalesChange, onPolaritiesChange }) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <Button variant="outline" size="sm">
+        <Ruler className="h-4 w-4 mr-2" />
+        Échelles
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent align="end" className="w-80 space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Choisissez pour chaque indicateur l'échelle affichée et le sens dans lequel elle se lit : tendances,
+        couleurs, tris, classements et barres en tiennent compte.
+      </p>
+      {(Object.keys(METRIC_SCALES) as ScoreMetric[]).map((metric) => (
+        <div key={metric} className="space-y-2">
+          <Label>{METRIC_LABELS[metric]}</Label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            className="justify-start"
+            value={scales[metric]}
+            onValueChange={(value) => value && onScalesChange({ ...scales, [metric]: value as ScaleKind })}
+          >
+            {(Object.keys(METRIC_SCALES[metric]) as ScaleKind[]).map((kind) => (
+              <ToggleGroupItem key={kind} value={kind}>
+                {METRIC_SCALES[metric][kind].label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            className="justify-start"
+            value={polarities[METRIC_SCALES[metric][scales[metric]].field]}
+            onValueChange={(value) =>
+              value && onPolaritiesChange({ ...polarities, [METRIC_SCALES[metric][scales[metric]].field]: value as Polarity })
+            }
+          >
+            {(Object.keys(POLARITY_LABELS) as Polarity[]).map((polarity) => (
+              <ToggleGroupItem key={polarity} value={polarity} className="text-xs">
+                {POLARITY_LABELS[polarity]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      ))}
+    </PopoverContent>
+  </Popover>
+);
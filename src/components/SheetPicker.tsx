@@ -0,0 +1,176 @@
+import { useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Crop, Layers } from "lucide-react";
+import { RegionPicker } from "./RegionPicker";
+import { PREVIEW_ROW_COUNT, SheetSummary, applyRegion, formatCell, isTrimmedRegion, sheetLabel } from "@/lib/workbook";
+
+interface SheetPickerProps {
+  sheets: SheetSummary[];
+  onConfirm: (selected: SheetSummary[]) => void;
+  onCancel: () => void;
+  onUpdateSheet: (index: number, sheet: SheetSummary) => void;
+}
+
+const MAX_PREVIEW_COLUMNS = 6;
+
+export const SheetPicker: React.FC<SheetPickerProps> = ({ sheets, onConfirm, onCancel, onUpdateSheet }) => {
+  const fileCount = new Set(sheets.map((sheet) => sheet.fileName)).size;
+
+  // Preselect the first sheet of each file that actually contains rows, like the former single-sheet import
+  const [selected, setSelected] = useState<number[]>(() => {
+    const seenFiles = new Set<string | undefined>();
+    return sheets.flatMap((sheet, index) => {
+      if (sheet.rows.length === 0 || seenFiles.has(sheet.fileName)) return [];
+      seenFiles.add(sheet.fileName);
+      return [index];
+    });
+  });
+
+  const [adjusting, setAdjusting] = useState<number | null>(null);
+
+  const toggleSheet = (index: number, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, index] : prev.filter((i) => i !== index)));
+  };
+
+  const selectedSheets = sheets.filter((_, index) => selected.includes(index));
+  const selectedRowCount = selectedSheets.reduce((sum, sheet) => sum + sheet.rows.length, 0);
+
+  if (adjusting !== null) {
+    return (
+      <RegionPicker
+        sheet={sheets[adjusting]}
+        onConfirm={(region) => {
+          onUpdateSheet(adjusting, applyRegion(sheets[adjusting], region));
+          setAdjusting(null);
+        }}
+        onBack={() => setAdjusting(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Layers className="h-5 w-5 text-primary" />
+        <div>
+          <p className="font-medium">Choisissez les feuilles à importer</p>
+          <p className="text-sm text-muted-foreground">
+            {fileCount > 1 ? `${fileCount} fichiers • ` : ""}{sheets.length} feuilles disponibles. Les feuilles sélectionnées seront fusionnées.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-3 max-h-[28rem] overflow-y-auto pr-1">
+        {sheets.map((sheet, sheetIndex) => {
+          const isSelected = selected.includes(sheetIndex);
+          const previewHeaders = sheet.headers.slice(0, MAX_PREVIEW_COLUMNS);
+
+          return (
+            <div
+              key={sheetIndex}
+              className={`rounded-lg border p-4 space-y-3 transition-colors ${
+                isSelected ? "border-primary bg-primary/5" : "border-border"
+              }`}
+            >
+              <label className="flex items-center gap-3 cursor-pointer">
+                <Checkbox
+                  checked={isSelected}
+                  disabled={sheet.rows.length === 0}
+                  onCheckedChange={(checked) => toggleSheet(sheetIndex, checked === true)}
+                />
+                <span className="font-medium">{sheetLabel(sheet)}</span>
+                <Badge variant="secondary">{sheet.rows.length} lignes</Badge>
+                <Badge variant="outline">{sheet.headers.length} colonnes</Badge>
+                {isTrimmedRegion(sheet) && sheet.region && sheet.firstRow !== undefined && (
+                  <Badge variant="outline" className="border-primary text-primary">
+                    Lignes {sheet.region.headerRow + sheet.firstRow} à {sheet.region.lastRow + sheet.firstRow}
+                  </Badge>
+                )}
+                {sheet.matrix && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={(event) => {
+                      event.preventDefault();
+                      setAdjusting(sheetIndex);
+                    }}
+                  >
+                    <Crop className="h-4 w-4 mr-2" />
+                    Ajuster la plage
+                  </Button>
+                )}
+              </label>
+
+              {sheet.headers.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {sheet.headers.map((header) => (
+                    <Badge key={header} variant="outline" className="font-normal text-xs">
+                      {header}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              {sheet.rows.length > 0 ? (
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {previewHeaders.map((header) => (
+                          <TableHead key={header} className="h-8 text-xs whitespace-nowrap">
+                            {header}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sheet.rows.slice(0, PREVIEW_ROW_COUNT).map((row, index) => (
+                        <TableRow key={index}>
+                          {previewHeaders.map((header) => (
+                            <TableCell key={header} className="py-1 text-xs whitespace-nowrap">
+                              {formatCell(row[header])}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Feuille vide</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {selected.length} feuille(s) • {selectedRowCount} lignes sélectionnées
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Annuler
+          </Button>
+          <Button
+            disabled={selected.length === 0}
+            onClick={() => onConfirm(selectedSheets)}
+          >
+            Importer la sélection
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
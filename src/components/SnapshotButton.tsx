@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FileCode2, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ExportContext } from "@/lib/export";
+import { SnapshotError, exportSnapshot } from "@/lib/snapshot";
+import { DashboardView } from "@/lib/viewState";
+
+interface SnapshotButtonProps {
+  context: ExportContext;
+  view: DashboardView;
+  name: string;
+}
+
+export const SnapshotButton: React.FC<SnapshotButtonProps> = ({ context, view, name }) => {
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await exportSnapshot(context, view, name);
+    } catch (error) {
+      toast({
+        title: "Instantané impossible",
+        description: error instanceof SnapshotError ? error.message : "La page HTML n'a pas pu être générée.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      disabled={exporting || context.records.length === 0}
+      onClick={handleExport}
+      title="Page HTML autonome, consultable sans l'application"
+    >
+      {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileCode2 className="h-4 w-4 mr-2" />}
+      Instantané HTML
+    </Button>
+  );
+};
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Globe, Filter, BarChart3, Table2 } from "lucide-react";
+import { DataTable } from "./DataTable";
+import { DataVisualization } from "./DataVisualization";
+import { StatsCards } from "./StatsCards";
+import { describeSource } from "@/lib/export";
+import { Snapshot } from "@/lib/snapshot";
+import { DashboardView } from "@/lib/viewState";
+import { TableSort } from "@/lib/table";
+
+interface SnapshotDashboardProps {
+  snapshot: Snapshot;
+}
+
+// Read-only dashboard of an exported HTML snapshot: the rows and filters are fixed, the table can still be sorted
+export const SnapshotDashboard: React.FC<SnapshotDashboardProps> = ({ snapshot }) => {
+  const { context, name } = snapshot;
+  const { records, schema, metrics, taxonomy } = context;
+  const [activeView, setActiveView] = useState<DashboardView>(snapshot.view);
+  const [tableSort, setTableSort] = useState<TableSort>(context.sort);
+  const [tablePage, setTablePage] = useState(1);
+  const exportedAt = new Date(snapshot.exportedAt);
+
+  // Switching between normalized and source columns starts from the first page, as in the dashboard
+  const handleTableSortChange = (sort: TableSort) => {
+    if (sort.view !== tableSort.view) setTablePage(1);
+    setTableSort(sort);
+  };
+
+  return (
+    <div className="min-h-screen bg-dashboard-bg">
+      {/* Header */}
+      <header className="bg-dashboard-nav border-b border-border p-6 shadow-sm">
+        <div className="container mx-auto">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-primary rounded-lg">
+                <Globe className="h-6 w-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">{name}</h1>
+                <p className="text-muted-foreground">
+                  Instantané du {exportedAt.toLocaleString("fr-FR")}, en lecture seule
+                </p>
+              </div>
+            </div>
+            <Badge variant="secondary" className="text-sm">
+              {records.length} enregistrements
+            </Badge>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto p-6 space-y-6">
+        <StatsCards data={records} schema={schema} metrics={metrics} taxonomy={taxonomy} />
+
+        {/* Filters, as applied when the snapshot was taken */}
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Filter className="h-5 w-5" />
+                  Filtres appliqués
+                </CardTitle>
+                <CardDescription>Les données ont été filtrées avant l'export</CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant={activeView === "table" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setActiveView("table")}
+                >
+                  <Table2 className="h-4 w-4 mr-2" />
+                  Tableau
+                </Button>
+                <Button
+                  variant={activeView === "charts" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setActiveView("charts")}
+                >
+                  <BarChart3 className="h-4 w-4 mr-2" />
+                  Graphiques
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-2">
+              {context.filters.map(([label, value]) => (
+                <Badge key={label} variant="outline" className="font-normal">
+                  {label} : {value}
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {activeView === "table" && (
+          <DataTable
+            data={records}
+            schema={schema}
+            metrics={metrics}
+            taxonomy={taxonomy}
+            sort={tableSort}
+            onSortChange={handleTableSortChange}
+            page={tablePage}
+            onPageChange={setTablePage}
+          />
+        )}
+        {activeView === "charts" && (
+          <DataVisualization
+            data={records}
+            schema={schema}
+            metrics={metrics}
+            taxonomy={taxonomy}
+            caption={describeSource(context, name, exportedAt)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Scale } from "lucide-react";
+import { FreedomData } from "./Dashboard";
+import {
+  BASIS_THRESHOLDS,
+  FREEDOM_HOUSE_RULES,
+  StatusBasis,
+  StatusRules,
+  StatusScope,
+  applyStatusRules,
+  areStatusRulesValid,
+  hasStatusContradiction,
+  isHigherFreer,
+} from "@/lib/statusRules";
+
+interface StatusRulesDialogProps {
+  data: FreedomData[];
+  rules: StatusRules;
+  onChange: (rules: StatusRules) => void;
+}
+
+const BASIS_LABELS: Record<StatusBasis, string> = {
+  ratings: "Moyenne des droits politiques et libertés civiles",
+  totalScore: "Score total (2–14)",
+  aggregateScore: "Score agrégé (0–100)",
+};
+
+const SCOPES: { scope: StatusScope; label: string }[] = [
+  { scope: "missing", label: "Uniquement les lignes sans statut" },
+  { scope: "all", label: "Toutes les lignes, en remplaçant le statut du fichier" },
+];
+
+export const StatusRulesDialog: React.FC<StatusRulesDialogProps> = ({ data, rules, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<StatusRules>(rules);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) setDraft(rules);
+  };
+
+  const valid = areStatusRulesValid(draft);
+  // Preview of the draft on the loaded data, before it is applied
+  const { derivedCount, contradictionCount } = useMemo(() => {
+    const preview = open && valid ? applyStatusRules(data, draft) : [];
+    return {
+      derivedCount: preview.filter((record) => record.statusDerived).length,
+      contradictionCount: preview.filter(hasStatusContradiction).length,
+    };
+  }, [open, valid, data, draft]);
+
+  const updateThreshold = (key: "freeMax" | "notFreeMin", value: string) => {
+    setDraft((prev) => ({ ...prev, [key]: parseFloat(value) }));
+  };
+
+  // Thresholds of one basis make no sense on the scale of another
+  const updateBasis = (basis: StatusBasis) => {
+    setDraft((prev) => ({ ...prev, basis, ...BASIS_THRESHOLDS[basis] }));
+  };
+
+  const higherFreer = isHigherFreer(draft.basis);
+  const step = draft.basis === "aggregateScore" ? "1" : "0.5";
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Scale className="h-4 w-4 mr-2" />
+          Règles de statut
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Calcul du statut de liberté</DialogTitle>
+          <DialogDescription>
+            Le statut est déduit des scores lorsqu'il manque.{" "}
+            {higherFreer ? "Plus la valeur est haute" : "Plus la valeur est basse"}, plus le pays est libre.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Valeur utilisée</Label>
+            <Select value={draft.basis} onValueChange={(value) => updateBasis(value as StatusBasis)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(BASIS_LABELS).map(([basis, label]) => (
+                  <SelectItem key={basis} value={basis}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="status-free-max">{higherFreer ? "Libre à partir de" : "Libre jusqu'à"}</Label>
+              <Input
+                id="status-free-max"
+                type="number"
+                step={step}
+                value={Number.isFinite(draft.freeMax) ? draft.freeMax : ""}
+                onChange={(event) => updateThreshold("freeMax", event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="status-not-free-min">{higherFreer ? "Pas libre jusqu'à" : "Pas libre à partir de"}</Label>
+              <Input
+                id="status-not-free-min"
+                type="number"
+                step={step}
+                value={Number.isFinite(draft.notFreeMin) ? draft.notFreeMin : ""}
+                onChange={(event) => updateThreshold("notFreeMin", event.target.value)}
+              />
+            </div>
+          </div>
+          {!valid && (
+            <p className="text-sm text-destructive">
+              Le seuil « Libre » doit être {higherFreer ? "supérieur" : "inférieur"} au seuil « Pas libre ».
+            </p>
+          )}
+
+          <RadioGroup
+            value={draft.scope}
+            onValueChange={(value) => setDraft((prev) => ({ ...prev, scope: value as StatusScope }))}
+            className="gap-2"
+          >
+            {SCOPES.map(({ scope, label }) => (
+              <div key={scope} className="flex items-center gap-2">
+                <RadioGroupItem value={scope} id={`status-scope-${scope}`} />
+                <Label htmlFor={`status-scope-${scope}`} className="font-normal cursor-pointer">
+                  {label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {valid && (
+            <div className="rounded-lg border p-3 text-sm space-y-1">
+              <p>{derivedCount} statuts calculés à partir des scores</p>
+              {contradictionCount > 0 && (
+                <p className="flex items-center gap-2 text-warning">
+                  <AlertTriangle className="h-4 w-4" />
+                  {contradictionCount} statuts du fichier contredisent les scores
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Button variant="ghost" onClick={() => setDraft(FREEDOM_HOUSE_RULES)}>
+              Seuils officiels Freedom House
+            </Button>
+            <Button
+              disabled={!valid}
+              onClick={() => {
+                onChange(draft);
+                setOpen(false);
+              }}
+            >
+              Appliquer
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
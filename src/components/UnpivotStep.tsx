@@ -0,0 +1,147 @@
+import { useMemo, useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ArrowLeft, Rows3 } from "lucide-react";
+import { UnpivotOptions, isUnpivotValid, suggestUnpivot, trimColumnNames, unpivotRows } from "@/lib/unpivot";
+import { PREVIEW_ROW_COUNT, SheetRow, formatCell } from "@/lib/workbook";
+
+interface UnpivotStepProps {
+  headers: string[];
+  rows: SheetRow[];
+  onConfirm: (options: UnpivotOptions) => void;
+  onBack: () => void;
+}
+
+type ColumnRole = "id" | "value" | "ignore";
+
+export const UnpivotStep: React.FC<UnpivotStepProps> = ({ headers, rows, onConfirm, onBack }) => {
+  const [options, setOptions] = useState<UnpivotOptions>(() => suggestUnpivot(headers));
+
+  const roleOf = (header: string): ColumnRole =>
+    options.idColumns.includes(header) ? "id" : options.valueColumns.includes(header) ? "value" : "ignore";
+
+  // Keep the original column order whatever order the roles were assigned in
+  const setRole = (header: string, role: ColumnRole) => {
+    setOptions((prev) => {
+      const withRole = (columns: string[], target: ColumnRole) =>
+        headers.filter((h) => (h === header ? role === target : columns.includes(h)));
+      return { ...prev, idColumns: withRole(prev.idColumns, "id"), valueColumns: withRole(prev.valueColumns, "value") };
+    });
+  };
+
+  const preview = useMemo(
+    () => unpivotRows(rows.slice(0, PREVIEW_ROW_COUNT), [], options).rows.slice(0, PREVIEW_ROW_COUNT),
+    [rows, options]
+  );
+  const { keyColumn, valueColumn } = trimColumnNames(options);
+  const previewHeaders = [...options.idColumns, keyColumn, valueColumn];
+  const valid = isUnpivotValid(options);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Rows3 className="h-5 w-5 text-primary" />
+        <div>
+          <p className="font-medium">Convertir des colonnes en lignes</p>
+          <p className="text-sm text-muted-foreground">
+            Chaque colonne de valeurs devient une ligne par enregistrement, avec son en-tête comme clé (par exemple l'année)
+          </p>
+        </div>
+      </div>
+
+      <div className="rounded-md border divide-y max-h-72 overflow-y-auto">
+        {headers.map((header) => (
+          <div key={header} className="flex items-center justify-between gap-2 p-2">
+            <span className="text-sm truncate">{header}</span>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={roleOf(header)}
+              onValueChange={(value) => value && setRole(header, value as ColumnRole)}
+            >
+              <ToggleGroupItem value="id">Identifiant</ToggleGroupItem>
+              <ToggleGroupItem value="value">Valeur</ToggleGroupItem>
+              <ToggleGroupItem value="ignore">Ignorée</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="unpivot-key">Nom de la colonne des en-têtes</Label>
+          <Input
+            id="unpivot-key"
+            value={options.keyColumn}
+            onChange={(event) => setOptions((prev) => ({ ...prev, keyColumn: event.target.value }))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="unpivot-value">Nom de la colonne des valeurs</Label>
+          <Input
+            id="unpivot-value"
+            value={options.valueColumn}
+            onChange={(event) => setOptions((prev) => ({ ...prev, valueColumn: event.target.value }))}
+          />
+        </div>
+      </div>
+
+      {valid && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-medium">Aperçu</span>
+            <Badge variant="secondary">
+              jusqu'à {(rows.length * options.valueColumns.length).toLocaleString("fr-FR")} lignes
+            </Badge>
+          </div>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {previewHeaders.map((header) => (
+                    <TableHead key={header} className="h-8 text-xs whitespace-nowrap">
+                      {header}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.map((row, index) => (
+                  <TableRow key={index}>
+                    {previewHeaders.map((header) => (
+                      <TableCell key={header} className="py-1 text-xs whitespace-nowrap">
+                        {formatCell(row[header])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Retour
+        </Button>
+        <Button disabled={!valid} onClick={() => onConfirm(trimColumnNames(options))}>
+          Convertir en lignes
+        </Button>
+      </div>
+    </div>
+  );
+};
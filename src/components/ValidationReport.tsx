@@ -0,0 +1,256 @@
+import { useMemo, useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { AlertTriangle, ArrowLeft, ChevronLeft, ChevronRight } from "lucide-react";
+import { ColumnMapping, MAPPED_FIELDS, SheetOrigin } from "@/lib/mapping";
+import { ISSUE_LABELS, IssueKind, RowValidation, validateRow } from "@/lib/validation";
+import { SheetRow, formatCell } from "@/lib/workbook";
+
+type RowAction = "exclude" | "fix" | "keep";
+
+export interface MappedSheet {
+  label: string;
+  rows: SheetRow[];
+  mapping: ColumnMapping;
+  origin: SheetOrigin;
+}
+
+interface ValidationReportProps {
+  sheets: MappedSheet[];
+  problems: RowValidation[];
+  onConfirm: (sheets: MappedSheet[]) => void;
+  onBack: () => void;
+}
+
+const ROWS_PER_PAGE = 10;
+
+const fieldLabel = (field: string) => MAPPED_FIELDS.find((f) => f.field === field)?.label ?? field;
+
+const problemKey = (problem: RowValidation) => `${problem.sheet}:${problem.index}`;
+
+export const ValidationReport: React.FC<ValidationReportProps> = ({ sheets, problems, onConfirm, onBack }) => {
+  const [actions, setActions] = useState<Record<string, RowAction>>({});
+  const [fixes, setFixes] = useState<Record<string, Record<string, string>>>({});
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const totalRows = sheets.reduce((sum, sheet) => sum + sheet.rows.length, 0);
+
+  const actionFor = (problem: RowValidation): RowAction => actions[problemKey(problem)] ?? "exclude";
+
+  const fixedRow = (problem: RowValidation): SheetRow => ({ ...problem.row, ...fixes[problemKey(problem)] });
+
+  const mappingFor = (problem: RowValidation) => sheets[problem.sheet].mapping;
+
+  const issueCounts = useMemo(() => {
+    return problems.reduce((acc, problem) => {
+      problem.issues.forEach((issue) => {
+        acc[issue.kind] = (acc[issue.kind] || 0) + 1;
+      });
+      return acc;
+    }, {} as Partial<Record<IssueKind, number>>);
+  }, [problems]);
+
+  // Rows marked "fix" still need attention until their edited cells pass validation
+  const unresolvedFixes = problems.filter(
+    (problem) => actionFor(problem) === "fix" && validateRow(fixedRow(problem), mappingFor(problem)).length > 0
+  ).length;
+
+  const excludedCount = problems.filter((problem) => actionFor(problem) === "exclude").length;
+
+  const totalPages = Math.ceil(problems.length / ROWS_PER_PAGE);
+  const pageProblems = problems.slice((currentPage - 1) * ROWS_PER_PAGE, currentPage * ROWS_PER_PAGE);
+
+  const setAllActions = (action: RowAction) => {
+    setActions(Object.fromEntries(problems.map((problem) => [problemKey(problem), action])));
+  };
+
+  const updateFix = (key: string, header: string, value: string) => {
+    setFixes((prev) => ({ ...prev, [key]: { ...prev[key], [header]: value } }));
+  };
+
+  const handleConfirm = () => {
+    const problemsByKey = new Map(problems.map((problem) => [problemKey(problem), problem]));
+    const result = sheets.map((mappedSheet, sheet) => {
+      const kept = mappedSheet.rows.flatMap((row, index) => {
+        const problem = problemsByKey.get(`${sheet}:${index}`);
+        if (!problem) return [{ row, index }];
+
+        switch (actionFor(problem)) {
+          case "exclude":
+            return [];
+          case "fix":
+            return [{ row: fixedRow(problem), index }];
+          default:
+            return [{ row, index }];
+        }
+      });
+
+      // Row numbers follow the rows that are kept so provenance stays accurate
+      return {
+        ...mappedSheet,
+        rows: kept.map(({ row }) => row),
+        origin: { ...mappedSheet.origin, rowNumbers: kept.map(({ index }) => mappedSheet.origin.rowNumbers[index]) },
+      };
+    });
+    onConfirm(result);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="h-5 w-5 text-warning" />
+        <div>
+          <p className="font-medium">Rapport de validation</p>
+          <p className="text-sm text-muted-foreground">
+            {totalRows - problems.length} lignes valides • {problems.length} lignes à vérifier
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(issueCounts) as IssueKind[]).map((kind) => (
+          <Badge key={kind} variant="outline" className="border-warning text-warning">
+            {ISSUE_LABELS[kind]} : {issueCounts[kind]}
+          </Badge>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Appliquer à toutes les lignes :</span>
+        <Button variant="outline" size="sm" onClick={() => setAllActions("exclude")}>Tout exclure</Button>
+        <Button variant="outline" size="sm" onClick={() => setAllActions("keep")}>Tout conserver</Button>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-24">Ligne</TableHead>
+              <TableHead>Pays</TableHead>
+              <TableHead>Problèmes</TableHead>
+              <TableHead className="w-64">Action</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pageProblems.map((problem) => {
+              const key = problemKey(problem);
+              const mapping = mappingFor(problem);
+              const action = actionFor(problem);
+              const remaining = action === "fix" ? validateRow(fixedRow(problem), mapping) : problem.issues;
+
+              return (
+                <TableRow key={key}>
+                  <TableCell className="text-xs">
+                    {sheets.length > 1 && (
+                      <div className="text-muted-foreground truncate max-w-40">{sheets[problem.sheet].label}</div>
+                    )}
+                    <span className="font-mono">{sheets[problem.sheet].origin.rowNumbers[problem.index]}</span>
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {mapping.country ? formatCell(problem.row[mapping.country]) : ""}
+                  </TableCell>
+                  <TableCell className="space-y-1">
+                    {problem.issues.map((issue) => (
+                      <div key={issue.field} className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="text-muted-foreground">{fieldLabel(issue.field)} :</span>
+                        {action === "fix" ? (
+                          <Input
+                            className="h-7 w-32"
+                            value={fixes[key]?.[issue.header] ?? formatCell(issue.value)}
+                            onChange={(e) => updateFix(key, issue.header, e.target.value)}
+                          />
+                        ) : (
+                          <span className="font-mono">{formatCell(issue.value) || "∅"}</span>
+                        )}
+                        {remaining.some((r) => r.field === issue.field) && (
+                          <Badge variant="outline" className="border-warning text-warning text-xs">
+                            {ISSUE_LABELS[issue.kind]}
+                          </Badge>
+                        )}
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      value={action}
+                      onValueChange={(value) =>
+                        value && setActions((prev) => ({ ...prev, [key]: value as RowAction }))
+                      }
+                    >
+                      <ToggleGroupItem value="exclude">Exclure</ToggleGroupItem>
+                      <ToggleGroupItem value="fix">Corriger</ToggleGroupItem>
+                      <ToggleGroupItem value="keep">Conserver</ToggleGroupItem>
+                    </ToggleGroup>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCurrentPage((prev) => Math.max(prev - 1, 1))}
+            disabled={currentPage === 1}
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Précédent
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {currentPage} sur {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCurrentPage((prev) => Math.min(prev + 1, totalPages))}
+            disabled={currentPage === totalPages}
+          >
+            Suivant
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      )}
+
+      {unresolvedFixes > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {unresolvedFixes} ligne(s) à corriger contiennent encore des valeurs invalides.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Retour
+        </Button>
+        <div className="flex items-center gap-4">
+          <p className="text-sm text-muted-foreground">
+            {totalRows - excludedCount} lignes seront importées
+          </p>
+          <Button disabled={unresolvedFixes > 0} onClick={handleConfirm}>
+            Importer les données
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
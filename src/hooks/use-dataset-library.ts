@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { FreedomData } from "@/components/Dashboard";
+import {
+  DatasetSummary,
+  createDataset,
+  datasetNameFor,
+  deleteDataset,
+  duplicateDataset,
+  listDatasets,
+  loadDataset,
+  loadLastDatasetId,
+  renameDataset,
+  saveLastDatasetId,
+  updateDatasetRecords,
+} from "@/lib/datasetStore";
+
+// Datasets saved in the browser, the one currently open, and the last one opened reopened on load
+export function useDatasetLibrary(onOpen: (records: FreedomData[]) => void) {
+  const [datasets, setDatasets] = useState<DatasetSummary[]>([]);
+  const [current, setCurrent] = useState<DatasetSummary | null>(null);
+  const onOpenRef = useRef(onOpen);
+  onOpenRef.current = onOpen;
+
+  const refresh = useCallback(async () => setDatasets(await listDatasets()), []);
+
+  const select = useCallback((summary: DatasetSummary | null) => {
+    setCurrent(summary);
+    saveLastDatasetId(summary?.id ?? null);
+  }, []);
+
+  const open = useCallback(async (id: string) => {
+    const dataset = await loadDataset(id);
+    if (!dataset) throw new Error("Jeu de données introuvable");
+    onOpenRef.current(dataset.records);
+    select(dataset.summary);
+  }, [select]);
+
+  useEffect(() => {
+    refresh().catch(() => setDatasets([]));
+    const lastId = loadLastDatasetId();
+    if (lastId) open(lastId).catch(() => saveLastDatasetId(null));
+  }, [refresh, open]);
+
+  // Imports into the open dataset update it; a first import, or one after it was deleted, creates a new one
+  const save = useCallback(async (records: FreedomData[]) => {
+    const updated = current ? await updateDatasetRecords(current.id, records) : undefined;
+    select(updated ?? (await createDataset(datasetNameFor(records), records)));
+    await refresh();
+  }, [current, select, refresh]);
+
+  const rename = useCallback(async (id: string, name: string) => {
+    const renamed = await renameDataset(id, name);
+    if (renamed && current?.id === id) setCurrent(renamed);
+    await refresh();
+  }, [current, refresh]);
+
+  const duplicate = useCallback(async (id: string) => {
+    await duplicateDataset(id);
+    await refresh();
+  }, [refresh]);
+
+  // The records stay on screen when their dataset is deleted, unsaved until the next import
+  const remove = useCallback(async (id: string) => {
+    await deleteDataset(id);
+    if (current?.id === id) select(null);
+    await refresh();
+  }, [current, select, refresh]);
+
+  const close = useCallback(() => select(null), [select]);
+
+  return { datasets, current, open, save, rename, duplicate, remove, close };
+}
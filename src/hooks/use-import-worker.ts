@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef } from "react";
+import type { FreedomData } from "@/components/Dashboard";
+import type { SheetSummary } from "@/lib/workbook";
+import type { ImportPhase, ImportRequest, ImportResponse, TransformBatch } from "@/workers/import.worker";
+
+export interface ImportProgress {
+  phase: ImportPhase;
+  loaded: number;
+  total: number;
+}
+
+export class ImportCancelledError extends Error {
+  constructor() {
+    super("Import annulé");
+    this.name = "ImportCancelledError";
+  }
+}
+
+interface PendingJob {
+  resolve: (response: ImportResponse) => void;
+  reject: (error: Error) => void;
+}
+
+// Runs parsing and transformation off the main thread, one job at a time
+export function useImportWorker(onProgress: (progress: ImportProgress) => void) {
+  const workerRef = useRef<Worker | null>(null);
+  const jobRef = useRef<PendingJob | null>(null);
+  const onProgressRef = useRef(onProgress);
+  onProgressRef.current = onProgress;
+
+  const getWorker = useCallback(() => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL("../workers/import.worker.ts", import.meta.url), { type: "module" });
+
+      worker.onmessage = (event: MessageEvent<ImportResponse>) => {
+        const response = event.data;
+        if (response.type === "progress") {
+          onProgressRef.current(response);
+          return;
+        }
+
+        const job = jobRef.current;
+        jobRef.current = null;
+        if (response.type === "error") job?.reject(new Error(response.message));
+        else job?.resolve(response);
+      };
+
+      worker.onerror = (event) => {
+        const job = jobRef.current;
+        jobRef.current = null;
+        job?.reject(new Error(event.message));
+      };
+
+      workerRef.current = worker;
+    }
+    return workerRef.current;
+  }, []);
+
+  const run = useCallback((request: ImportRequest) => {
+    return new Promise<ImportResponse>((resolve, reject) => {
+      jobRef.current = { resolve, reject };
+      getWorker().postMessage(request);
+    });
+  }, [getWorker]);
+
+  const parseFile = useCallback(async (file: File): Promise<SheetSummary[]> => {
+    const response = await run({ type: "parse", file });
+    return response.type === "parsed" ? response.sheets : [];
+  }, [run]);
+
+  const transformBatches = useCallback(async (batches: TransformBatch[]): Promise<FreedomData[][]> => {
+    const response = await run({ type: "transform", batches });
+    return response.type === "transformed" ? response.batches : [];
+  }, [run]);
+
+  // Terminating is the only way to interrupt a synchronous parse; a fresh worker is spawned on the next job
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+
+    const job = jobRef.current;
+    jobRef.current = null;
+    job?.reject(new ImportCancelledError());
+  }, []);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  return { parseFile, transformBatches, cancel };
+}
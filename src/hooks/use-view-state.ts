@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+import { ViewState, parseViewState, viewStateParams } from "@/lib/viewState";
+
+// The dashboard view, kept in the query string so that it can be bookmarked and shared.
+// onChange runs when the page loads and on every navigation, back and forward included.
+export function useViewState(onChange: (state: ViewState) => void) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const query = searchParams.toString();
+  const state = useMemo(() => parseViewState(new URLSearchParams(query)), [query]);
+
+  useEffect(() => {
+    onChangeRef.current(state);
+  }, [state]);
+
+  // replace for changes made keystroke by keystroke, which would otherwise fill the history
+  const navigate = useCallback(
+    (next: ViewState, options?: { replace?: boolean }) => setSearchParams(viewStateParams(next), options),
+    [setSearchParams]
+  );
+
+  return { state, navigate };
+}
@@ -0,0 +1,74 @@
+import type { FreedomData } from "@/components/Dashboard";
+import { ColumnType, typedLabel } from "./columnTypes";
+import { metricValue, recordField } from "./metrics";
+import type { NumericMetric } from "./schema";
+
+export type ColumnChart = "groupAverage" | "trend" | "histogram" | "pie" | "counts" | "timeline";
+
+export const COLUMN_CHART_LABELS: Record<ColumnChart, string> = {
+  groupAverage: "Moyenne par groupe",
+  trend: "Évolution",
+  histogram: "Distribution",
+  pie: "Secteurs",
+  counts: "Effectifs",
+  timeline: "Histogramme par année",
+};
+
+// Free text has no meaningful chart
+export const CHARTS_BY_TYPE: Record<ColumnType, ColumnChart[]> = {
+  integer: ["groupAverage", "trend", "histogram"],
+  decimal: ["groupAverage", "trend", "histogram"],
+  percentage: ["groupAverage", "trend", "histogram"],
+  date: ["timeline"],
+  boolean: ["pie", "counts"],
+  categorical: ["pie", "counts"],
+  text: [],
+};
+
+const HISTOGRAM_BINS = 10;
+
+const formatBound = (value: number) => String(Number(value.toFixed(1)));
+
+export interface CountBucket {
+  name: string;
+  count: number;
+}
+
+// Equal-width bins over the values of the column
+export const numericHistogram = (records: FreedomData[], metric: NumericMetric): CountBucket[] => {
+  const values = records.map((record) => metricValue(record, metric)).filter((value): value is number => value !== null);
+  if (values.length === 0) return [];
+  const min = values.reduce((lowest, value) => Math.min(lowest, value), Infinity);
+  const max = values.reduce((highest, value) => Math.max(highest, value), -Infinity);
+  const width = (max - min) / HISTOGRAM_BINS || 1;
+  const bins = max === min ? 1 : HISTOGRAM_BINS;
+
+  const counts = new Array<number>(bins).fill(0);
+  values.forEach((value) => {
+    counts[Math.min(Math.floor((value - min) / width), bins - 1)] += 1;
+  });
+  return counts.map((count, index) => ({
+    name: `${formatBound(min + index * width)}–${formatBound(bins === 1 ? max : min + (index + 1) * width)}`,
+    count,
+  }));
+};
+
+// Records per value, the most frequent first
+export const valueCounts = (records: FreedomData[], field: string): CountBucket[] => {
+  const counts = new Map<string, number>();
+  records.forEach((record) => {
+    const label = typedLabel(recordField(record, field)) || "–";
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  });
+  return [...counts.entries()].map(([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count);
+};
+
+// Dates are "YYYY" or "YYYY-MM-DD": their first four characters give the year
+export const yearCounts = (records: FreedomData[], field: string): CountBucket[] => {
+  const counts = new Map<string, number>();
+  records.forEach((record) => {
+    const value = recordField(record, field);
+    if (typeof value === "string" && value.length >= 4) counts.set(value.slice(0, 4), (counts.get(value.slice(0, 4)) ?? 0) + 1);
+  });
+  return [...counts.entries()].map(([name, count]) => ({ name, count })).sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,120 @@
+import { toNumber } from "./metrics";
+import { normalizeText } from "./utils";
+
+export type ColumnType = "integer" | "decimal" | "percentage" | "date" | "boolean" | "categorical" | "text";
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  integer: "Entier",
+  decimal: "Décimal",
+  percentage: "Pourcentage",
+  date: "Date / année",
+  boolean: "Booléen",
+  categorical: "Catégorie",
+  text: "Texte libre",
+};
+
+// Numbers for the numeric types, "YYYY" or "YYYY-MM-DD" for dates so that they sort as text, booleans, or text
+export type TypedValue = number | string | boolean;
+
+// Beyond this many distinct values a text column is descriptive rather than categorical
+export const MAX_CATEGORIES = 12;
+
+const TRUE_WORDS = ["oui", "vrai", "true", "yes"];
+const FALSE_WORDS = ["non", "faux", "false", "no"];
+
+const PERCENT_PATTERN = /^\s*-?\d+([.,]\d+)?\s*%\s*$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/;
+const FRENCH_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+// Days between the spreadsheet epoch (1899-12-30) and the Unix epoch
+const SPREADSHEET_EPOCH_OFFSET = 25569;
+
+const hasValue = (value: unknown): boolean => value !== undefined && value !== null && String(value).trim() !== "";
+
+const isYear = (value: number): boolean => Number.isInteger(value) && value >= 1800 && value <= 2100;
+
+const pad = (value: string) => value.padStart(2, "0");
+
+const parseBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === "boolean") return value;
+  if (value === 1 || value === 0) return value === 1;
+  const word = normalizeText(String(value));
+  if (TRUE_WORDS.includes(word)) return true;
+  if (FALSE_WORDS.includes(word)) return false;
+  return undefined;
+};
+
+const parsePercentage = (value: unknown): number | undefined =>
+  toNumber(typeof value === "string" ? value.replace("%", "") : value) ?? undefined;
+
+// Text dates only: years and spreadsheet serial numbers are told apart from plain numbers by the column type
+const parseDateText = (value: unknown): string | undefined => {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? undefined : value.toISOString().slice(0, 10);
+  if (typeof value !== "string") return undefined;
+  const iso = value.trim().match(ISO_DATE_PATTERN);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const french = value.trim().match(FRENCH_DATE_PATTERN);
+  return french ? `${french[3]}-${pad(french[2])}-${pad(french[1])}` : undefined;
+};
+
+const parseDate = (value: unknown): string | undefined => {
+  const number = toNumber(value);
+  if (number === null) return parseDateText(value);
+  if (isYear(number)) return String(number);
+  return number > 0 && number < 100000
+    ? new Date(Math.round((number - SPREADSHEET_EPOCH_OFFSET) * 86400000)).toISOString().slice(0, 10)
+    : undefined;
+};
+
+// Cells that cannot be read in the column type are left out, like empty ones
+export const parseTyped = (value: unknown, type: ColumnType): TypedValue | undefined => {
+  if (!hasValue(value)) return undefined;
+  switch (type) {
+    case "integer": {
+      const number = toNumber(value);
+      return number === null ? undefined : Math.round(number);
+    }
+    case "decimal":
+      return toNumber(value) ?? undefined;
+    case "percentage":
+      return parsePercentage(value);
+    case "date":
+      return parseDate(value);
+    case "boolean":
+      return parseBoolean(value);
+    default:
+      return String(value).trim();
+  }
+};
+
+// The narrowest type every filled cell of the column fits in
+export const profileColumn = (values: unknown[]): ColumnType => {
+  const filled = values.filter(hasValue);
+  if (filled.length === 0) return "text";
+
+  if (filled.every((value) => typeof value !== "number" && parseBoolean(value) !== undefined)) return "boolean";
+  if (filled.some((value) => typeof value === "string" && PERCENT_PATTERN.test(value)) &&
+    filled.every((value) => parsePercentage(value) !== undefined)) {
+    return "percentage";
+  }
+
+  const numbers = filled.map(toNumber);
+  if (numbers.every((value) => value !== null)) {
+    if (numbers.every(isYear)) return "date";
+    return numbers.every(Number.isInteger) ? "integer" : "decimal";
+  }
+
+  if (filled.every((value) => parseDateText(value) !== undefined)) return "date";
+  return new Set(filled.map((value) => String(value).trim())).size <= MAX_CATEGORIES ? "categorical" : "text";
+};
+
+export const isNumericType = (type: ColumnType): boolean =>
+  type === "integer" || type === "decimal" || type === "percentage";
+
+// Text shown for a typed value, also used to match categories
+export const typedLabel = (value: unknown): string => {
+  if (typeof value === "boolean") return value ? "Oui" : "Non";
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string" && ISO_DATE_PATTERN.test(value)) return new Date(value).toLocaleDateString("fr-FR");
+  return String(value).trim();
+};
@@ -0,0 +1,108 @@
+import type { FreedomData } from "@/components/Dashboard";
+import { ColumnType, MAX_CATEGORIES } from "./columnTypes";
+import { BASE_FIELDS, FormulaError, FormulaValue, evaluateFormula, formulaFields, parseFormula } from "./formula";
+import { COMPUTED_FIELD_PREFIX } from "./metrics";
+import { DatasetSchema, MetricDefinition, metricForType } from "./schema";
+
+// A column derived from the others by a formula, see lib/formula for the language
+export interface ComputedColumn {
+  name: string;
+  formula: string;
+}
+
+// Formulas for the usual derived metrics, offered as a starting point
+export const COMPUTED_EXAMPLES: ComputedColumn[] = [
+  { name: "Écart DP–LC", formula: "politicalRights - civilLiberties" },
+  { name: "Évolution sur 5 ans", formula: "totalScore - lag(totalScore, 5)" },
+  { name: "Rang dans la région", formula: "rank(-totalScore, region, year)" },
+  { name: "Plus libre que sa région", formula: "totalScore < mean(totalScore, region, year)" },
+];
+
+const STORAGE_KEY = "viz-my-xls.computed-columns";
+
+export const loadComputedColumns = (): ComputedColumn[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveComputedColumns = (columns: ComputedColumn[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(columns));
+};
+
+export const computedField = (column: ComputedColumn): string => `${COMPUTED_FIELD_PREFIX}${column.name}`;
+
+// Problem with each column, or null: formulas may only read fields, unmapped columns and the columns above them
+export const checkComputedColumns = (columns: ComputedColumn[], records: FreedomData[]): (string | null)[] => {
+  const known = new Set(BASE_FIELDS);
+  records.forEach((record) => Object.keys(record.extra ?? {}).forEach((header) => known.add(header)));
+
+  return columns.map((column) => {
+    const { name } = column;
+    let problem: string | null = null;
+    if (!name.trim()) problem = "La colonne doit avoir un nom.";
+    else if (known.has(name)) problem = `Le nom « ${name} » est déjà celui d'une colonne.`;
+    else {
+      try {
+        const unknown = formulaFields(parseFormula(column.formula)).find((field) => !known.has(field));
+        if (unknown) problem = `Colonne inconnue : « ${unknown} ».`;
+      } catch (error) {
+        if (!(error instanceof FormulaError)) throw error;
+        problem = error.message;
+      }
+    }
+    if (name) known.add(name);
+    return problem;
+  });
+};
+
+// Evaluates the valid columns in order, each one seeing those above it; invalid ones are left out
+export const applyComputedColumns = (records: FreedomData[], columns: ComputedColumn[]): FreedomData[] => {
+  const problems = checkComputedColumns(columns, records);
+  let computed = records.map((record) => ({ ...record, computed: {} as Record<string, unknown> }));
+  columns.forEach((column, index) => {
+    if (problems[index]) return;
+    const values = evaluateFormula(parseFormula(column.formula), computed);
+    computed = computed.map((record, position) =>
+      values[position] === null ? record : { ...record, computed: { ...record.computed, [column.name]: values[position] } }
+    );
+  });
+  return computed;
+};
+
+// Results are already typed: numbers, booleans, or text that is categorical when it takes few values
+const computedType = (values: FormulaValue[]): ColumnType => {
+  const filled = values.filter((value) => value !== null);
+  if (filled.length > 0 && filled.every((value) => typeof value === "number")) {
+    return filled.every((value) => Number.isInteger(value)) ? "integer" : "decimal";
+  }
+  if (filled.length > 0 && filled.every((value) => typeof value === "boolean")) return "boolean";
+  return new Set(filled.map(String)).size <= MAX_CATEGORIES ? "categorical" : "text";
+};
+
+// Replaces the computed metrics of the schema, keeping the visibility and polarity chosen for them
+export const withComputedMetrics = (
+  schema: DatasetSchema,
+  records: FreedomData[],
+  columns: ComputedColumn[]
+): DatasetSchema => {
+  const problems = checkComputedColumns(columns, records);
+  const computedMetrics = columns.flatMap((column, index): MetricDefinition[] => {
+    if (problems[index]) return [];
+    const field = computedField(column);
+    const values = records.map((record) => (record.computed?.[column.name] ?? null) as FormulaValue);
+    const metric = metricForType(field, column.name, computedType(values), values);
+    const previous = schema.metrics.find((candidate) => candidate.field === field);
+    if (!previous) return [metric];
+    const polarity = previous.kind === "numeric" && metric.kind === "numeric" ? previous.polarity : undefined;
+    return [{ ...metric, hidden: previous.hidden, ...(polarity ? { polarity } : {}) } as MetricDefinition];
+  });
+
+  return {
+    ...schema,
+    metrics: [...schema.metrics.filter((metric) => !metric.field.startsWith(COMPUTED_FIELD_PREFIX)), ...computedMetrics],
+  };
+};
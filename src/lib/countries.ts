@@ -0,0 +1,302 @@
+import type { FreedomData } from "@/components/Dashboard";
+import { normalizeText } from "./utils";
+
+export interface Country {
+  iso2: string;
+  iso3: string;
+  // Names displayed by the app (French) and used by most sources (English)
+  fr: string;
+  en: string;
+  aliases: string[];
+}
+
+type CountryRow = [iso2: string, iso3: string, fr: string, en: string, aliases?: string[]];
+
+// ISO 3166-1 countries rated by Freedom House, a few territories it rates separately, and the states
+// that disappeared after 1990 (with their former ISO 3166-3 codes) so that historical editions resolve too
+const COUNTRY_ROWS: CountryRow[] = [
+  ["AF", "AFG", "Afghanistan", "Afghanistan"],
+  ["AL", "ALB", "Albanie", "Albania"],
+  ["DZ", "DZA", "Algérie", "Algeria"],
+  ["AD", "AND", "Andorre", "Andorra"],
+  ["AO", "AGO", "Angola", "Angola"],
+  ["AG", "ATG", "Antigua-et-Barbuda", "Antigua and Barbuda"],
+  ["AR", "ARG", "Argentine", "Argentina"],
+  ["AM", "ARM", "Arménie", "Armenia"],
+  ["AU", "AUS", "Australie", "Australia"],
+  ["AT", "AUT", "Autriche", "Austria"],
+  ["AZ", "AZE", "Azerbaïdjan", "Azerbaijan"],
+  ["BS", "BHS", "Bahamas", "Bahamas"],
+  ["BH", "BHR", "Bahreïn", "Bahrain"],
+  ["BD", "BGD", "Bangladesh", "Bangladesh"],
+  ["BB", "BRB", "Barbade", "Barbados"],
+  ["BY", "BLR", "Biélorussie", "Belarus", ["Bélarus", "Byelorussia"]],
+  ["BE", "BEL", "Belgique", "Belgium"],
+  ["BZ", "BLZ", "Belize", "Belize"],
+  ["BJ", "BEN", "Bénin", "Benin", ["Dahomey"]],
+  ["BT", "BTN", "Bhoutan", "Bhutan"],
+  ["BO", "BOL", "Bolivie", "Bolivia", ["Plurinational State of Bolivia"]],
+  ["BA", "BIH", "Bosnie-Herzégovine", "Bosnia and Herzegovina", ["Bosnia-Herzegovina", "Bosnia"]],
+  ["BW", "BWA", "Botswana", "Botswana"],
+  ["BR", "BRA", "Brésil", "Brazil"],
+  ["BN", "BRN", "Brunei", "Brunei", ["Brunei Darussalam"]],
+  ["BG", "BGR", "Bulgarie", "Bulgaria"],
+  ["BF", "BFA", "Burkina Faso", "Burkina Faso", ["Upper Volta", "Haute-Volta"]],
+  ["BI", "BDI", "Burundi", "Burundi"],
+  ["CV", "CPV", "Cap-Vert", "Cabo Verde", ["Cape Verde"]],
+  ["KH", "KHM", "Cambodge", "Cambodia", ["Kampuchea"]],
+  ["CM", "CMR", "Cameroun", "Cameroon"],
+  ["CA", "CAN", "Canada", "Canada"],
+  ["CF", "CAF", "République centrafricaine", "Central African Republic", ["Centrafrique"]],
+  ["TD", "TCD", "Tchad", "Chad"],
+  ["CL", "CHL", "Chili", "Chile"],
+  ["CN", "CHN", "Chine", "China", ["People's Republic of China", "République populaire de Chine"]],
+  ["CO", "COL", "Colombie", "Colombia"],
+  ["KM", "COM", "Comores", "Comoros"],
+  ["CG", "COG", "Congo", "Republic of the Congo", ["Congo (Brazzaville)", "Congo-Brazzaville", "Republic of Congo", "Congo, Rep."]],
+  [
+    "CD",
+    "COD",
+    "République démocratique du Congo",
+    "Democratic Republic of the Congo",
+    ["Congo (Kinshasa)", "Congo-Kinshasa", "DR Congo", "DRC", "RDC", "Congo, Dem. Rep.", "Zaire", "Zaïre"],
+  ],
+  ["CR", "CRI", "Costa Rica", "Costa Rica"],
+  ["CI", "CIV", "Côte d'Ivoire", "Côte d'Ivoire", ["Ivory Coast"]],
+  ["HR", "HRV", "Croatie", "Croatia"],
+  ["CU", "CUB", "Cuba", "Cuba"],
+  ["CY", "CYP", "Chypre", "Cyprus"],
+  ["CZ", "CZE", "Tchéquie", "Czechia", ["Czech Republic", "République tchèque"]],
+  ["DK", "DNK", "Danemark", "Denmark"],
+  ["DJ", "DJI", "Djibouti", "Djibouti"],
+  ["DM", "DMA", "Dominique", "Dominica"],
+  ["DO", "DOM", "République dominicaine", "Dominican Republic"],
+  ["EC", "ECU", "Équateur", "Ecuador"],
+  ["EG", "EGY", "Égypte", "Egypt"],
+  ["SV", "SLV", "Salvador", "El Salvador"],
+  ["GQ", "GNQ", "Guinée équatoriale", "Equatorial Guinea"],
+  ["ER", "ERI", "Érythrée", "Eritrea"],
+  ["EE", "EST", "Estonie", "Estonia"],
+  ["SZ", "SWZ", "Eswatini", "Eswatini", ["Swaziland"]],
+  ["ET", "ETH", "Éthiopie", "Ethiopia"],
+  ["FJ", "FJI", "Fidji", "Fiji"],
+  ["FI", "FIN", "Finlande", "Finland"],
+  ["FR", "FRA", "France", "France"],
+  ["GA", "GAB", "Gabon", "Gabon"],
+  ["GM", "GMB", "Gambie", "Gambia"],
+  ["GE", "GEO", "Géorgie", "Georgia"],
+  ["DE", "DEU", "Allemagne", "Germany", ["West Germany", "Germany, West", "Allemagne de l'Ouest", "RFA"]],
+  ["GH", "GHA", "Ghana", "Ghana"],
+  ["GR", "GRC", "Grèce", "Greece"],
+  ["GD", "GRD", "Grenade", "Grenada"],
+  ["GT", "GTM", "Guatemala", "Guatemala"],
+  ["GN", "GIN", "Guinée", "Guinea"],
+  ["GW", "GNB", "Guinée-Bissau", "Guinea-Bissau"],
+  ["GY", "GUY", "Guyana", "Guyana"],
+  ["HT", "HTI", "Haïti", "Haiti"],
+  ["HN", "HND", "Honduras", "Honduras"],
+  ["HU", "HUN", "Hongrie", "Hungary"],
+  ["IS", "ISL", "Islande", "Iceland"],
+  ["IN", "IND", "Inde", "India"],
+  ["ID", "IDN", "Indonésie", "Indonesia"],
+  ["IR", "IRN", "Iran", "Iran", ["Islamic Republic of Iran", "Iran, Islamic Rep."]],
+  ["IQ", "IRQ", "Irak", "Iraq"],
+  ["IE", "IRL", "Irlande", "Ireland"],
+  ["IL", "ISR", "Israël", "Israel"],
+  ["IT", "ITA", "Italie", "Italy"],
+  ["JM", "JAM", "Jamaïque", "Jamaica"],
+  ["JP", "JPN", "Japon", "Japan"],
+  ["JO", "JOR", "Jordanie", "Jordan"],
+  ["KZ", "KAZ", "Kazakhstan", "Kazakhstan"],
+  ["KE", "KEN", "Kenya", "Kenya"],
+  ["KI", "KIR", "Kiribati", "Kiribati"],
+  [
+    "KP",
+    "PRK",
+    "Corée du Nord",
+    "North Korea",
+    ["Korea, North", "Democratic People's Republic of Korea", "DPRK", "Korea, Dem. People's Rep."],
+  ],
+  ["KR", "KOR", "Corée du Sud", "South Korea", ["Korea, South", "Republic of Korea", "Korea, Rep.", "Korea"]],
+  ["XK", "XKX", "Kosovo", "Kosovo"],
+  ["KW", "KWT", "Koweït", "Kuwait"],
+  ["KG", "KGZ", "Kirghizistan", "Kyrgyzstan", ["Kyrgyz Republic", "Kirghizstan"]],
+  ["LA", "LAO", "Laos", "Laos", ["Lao PDR", "Lao People's Democratic Republic"]],
+  ["LV", "LVA", "Lettonie", "Latvia"],
+  ["LB", "LBN", "Liban", "Lebanon"],
+  ["LS", "LSO", "Lesotho", "Lesotho"],
+  ["LR", "LBR", "Liberia", "Liberia"],
+  ["LY", "LBY", "Libye", "Libya"],
+  ["LI", "LIE", "Liechtenstein", "Liechtenstein"],
+  ["LT", "LTU", "Lituanie", "Lithuania"],
+  ["LU", "LUX", "Luxembourg", "Luxembourg"],
+  ["MG", "MDG", "Madagascar", "Madagascar"],
+  ["MW", "MWI", "Malawi", "Malawi"],
+  ["MY", "MYS", "Malaisie", "Malaysia"],
+  ["MV", "MDV", "Maldives", "Maldives"],
+  ["ML", "MLI", "Mali", "Mali"],
+  ["MT", "MLT", "Malte", "Malta"],
+  ["MH", "MHL", "Îles Marshall", "Marshall Islands"],
+  ["MR", "MRT", "Mauritanie", "Mauritania"],
+  ["MU", "MUS", "Maurice", "Mauritius", ["Île Maurice"]],
+  ["MX", "MEX", "Mexique", "Mexico"],
+  ["FM", "FSM", "Micronésie", "Micronesia", ["Federated States of Micronesia", "Micronesia, Fed. Sts."]],
+  ["MD", "MDA", "Moldavie", "Moldova", ["Republic of Moldova", "Moldova, Rep."]],
+  ["MC", "MCO", "Monaco", "Monaco"],
+  ["MN", "MNG", "Mongolie", "Mongolia"],
+  ["ME", "MNE", "Monténégro", "Montenegro"],
+  ["MA", "MAR", "Maroc", "Morocco"],
+  ["MZ", "MOZ", "Mozambique", "Mozambique"],
+  ["MM", "MMR", "Birmanie", "Myanmar", ["Burma"]],
+  ["NA", "NAM", "Namibie", "Namibia"],
+  ["NR", "NRU", "Nauru", "Nauru"],
+  ["NP", "NPL", "Népal", "Nepal"],
+  ["NL", "NLD", "Pays-Bas", "Netherlands", ["Holland", "Hollande"]],
+  ["NZ", "NZL", "Nouvelle-Zélande", "New Zealand"],
+  ["NI", "NIC", "Nicaragua", "Nicaragua"],
+  ["NE", "NER", "Niger", "Niger"],
+  ["NG", "NGA", "Nigeria", "Nigeria", ["Nigéria"]],
+  ["MK", "MKD", "Macédoine du Nord", "North Macedonia", ["Macedonia", "Macédoine", "FYROM"]],
+  ["NO", "NOR", "Norvège", "Norway"],
+  ["OM", "OMN", "Oman", "Oman"],
+  ["PK", "PAK", "Pakistan", "Pakistan"],
+  ["PW", "PLW", "Palaos", "Palau"],
+  ["PS", "PSE", "Palestine", "Palestine", ["State of Palestine", "Palestinian Territories", "Territoires palestiniens"]],
+  ["PA", "PAN", "Panama", "Panama"],
+  ["PG", "PNG", "Papouasie-Nouvelle-Guinée", "Papua New Guinea"],
+  ["PY", "PRY", "Paraguay", "Paraguay"],
+  ["PE", "PER", "Pérou", "Peru"],
+  ["PH", "PHL", "Philippines", "Philippines"],
+  ["PL", "POL", "Pologne", "Poland"],
+  ["PT", "PRT", "Portugal", "Portugal"],
+  ["QA", "QAT", "Qatar", "Qatar"],
+  ["RO", "ROU", "Roumanie", "Romania"],
+  ["RU", "RUS", "Russie", "Russia", ["Russian Federation", "Fédération de Russie"]],
+  ["RW", "RWA", "Rwanda", "Rwanda"],
+  ["KN", "KNA", "Saint-Christophe-et-Niévès", "Saint Kitts and Nevis", ["St. Kitts and Nevis", "Saint-Kitts-et-Nevis"]],
+  ["LC", "LCA", "Sainte-Lucie", "Saint Lucia", ["St. Lucia"]],
+  [
+    "VC",
+    "VCT",
+    "Saint-Vincent-et-les-Grenadines",
+    "Saint Vincent and the Grenadines",
+    ["St. Vincent and the Grenadines", "St. Vincent and Grenadines"],
+  ],
+  ["WS", "WSM", "Samoa", "Samoa", ["Western Samoa"]],
+  ["SM", "SMR", "Saint-Marin", "San Marino"],
+  ["ST", "STP", "Sao Tomé-et-Principe", "Sao Tome and Principe"],
+  ["SA", "SAU", "Arabie saoudite", "Saudi Arabia"],
+  ["SN", "SEN", "Sénégal", "Senegal"],
+  ["RS", "SRB", "Serbie", "Serbia"],
+  ["SC", "SYC", "Seychelles", "Seychelles"],
+  ["SL", "SLE", "Sierra Leone", "Sierra Leone"],
+  ["SG", "SGP", "Singapour", "Singapore"],
+  ["SK", "SVK", "Slovaquie", "Slovakia", ["Slovak Republic"]],
+  ["SI", "SVN", "Slovénie", "Slovenia"],
+  ["SB", "SLB", "Îles Salomon", "Solomon Islands"],
+  ["SO", "SOM", "Somalie", "Somalia"],
+  ["ZA", "ZAF", "Afrique du Sud", "South Africa"],
+  ["SS", "SSD", "Soudan du Sud", "South Sudan"],
+  ["ES", "ESP", "Espagne", "Spain"],
+  ["LK", "LKA", "Sri Lanka", "Sri Lanka", ["Ceylon"]],
+  ["SD", "SDN", "Soudan", "Sudan"],
+  ["SR", "SUR", "Suriname", "Suriname", ["Surinam"]],
+  ["SE", "SWE", "Suède", "Sweden"],
+  ["CH", "CHE", "Suisse", "Switzerland"],
+  ["SY", "SYR", "Syrie", "Syria", ["Syrian Arab Republic"]],
+  ["TW", "TWN", "Taïwan", "Taiwan", ["Republic of China", "Taiwan, China", "Chinese Taipei"]],
+  ["TJ", "TJK", "Tadjikistan", "Tajikistan"],
+  ["TZ", "TZA", "Tanzanie", "Tanzania", ["United Republic of Tanzania"]],
+  ["TH", "THA", "Thaïlande", "Thailand"],
+  ["TL", "TLS", "Timor oriental", "Timor-Leste", ["East Timor"]],
+  ["TG", "TGO", "Togo", "Togo"],
+  ["TO", "TON", "Tonga", "Tonga"],
+  ["TT", "TTO", "Trinité-et-Tobago", "Trinidad and Tobago"],
+  ["TN", "TUN", "Tunisie", "Tunisia"],
+  ["TR", "TUR", "Turquie", "Türkiye", ["Turkey"]],
+  ["TM", "TKM", "Turkménistan", "Turkmenistan"],
+  ["TV", "TUV", "Tuvalu", "Tuvalu"],
+  ["UG", "UGA", "Ouganda", "Uganda"],
+  ["UA", "UKR", "Ukraine", "Ukraine"],
+  ["AE", "ARE", "Émirats arabes unis", "United Arab Emirates", ["UAE", "EAU"]],
+  ["GB", "GBR", "Royaume-Uni", "United Kingdom", ["UK", "Great Britain", "Britain", "Grande-Bretagne"]],
+  ["US", "USA", "États-Unis", "United States", ["United States of America", "US", "Etats-Unis d'Amérique"]],
+  ["UY", "URY", "Uruguay", "Uruguay"],
+  ["UZ", "UZB", "Ouzbékistan", "Uzbekistan"],
+  ["VU", "VUT", "Vanuatu", "Vanuatu"],
+  ["VA", "VAT", "Vatican", "Holy See", ["Vatican City", "Saint-Siège"]],
+  ["VE", "VEN", "Venezuela", "Venezuela", ["Bolivarian Republic of Venezuela", "Venezuela, RB"]],
+  ["VN", "VNM", "Viêt Nam", "Vietnam", ["Viet Nam"]],
+  ["YE", "YEM", "Yémen", "Yemen", ["Yemen, Rep."]],
+  ["ZM", "ZMB", "Zambie", "Zambia"],
+  ["ZW", "ZWE", "Zimbabwe", "Zimbabwe", ["Rhodesia", "Rhodésie"]],
+  ["HK", "HKG", "Hong Kong", "Hong Kong", ["Hong Kong SAR", "Hong Kong, China", "Hong Kong SAR, China"]],
+  ["MO", "MAC", "Macao", "Macao", ["Macau"]],
+  ["PR", "PRI", "Porto Rico", "Puerto Rico"],
+  ["EH", "ESH", "Sahara occidental", "Western Sahara"],
+  ["CS", "CSK", "Tchécoslovaquie", "Czechoslovakia"],
+  ["DD", "DDR", "Allemagne de l'Est", "East Germany", ["Germany, East", "German Democratic Republic", "RDA"]],
+  ["SU", "SUN", "URSS", "USSR", ["Soviet Union", "Union soviétique", "Union des républiques socialistes soviétiques"]],
+  ["YU", "YUG", "Yougoslavie", "Yugoslavia", ["Serbia and Montenegro", "Serbie-et-Monténégro"]],
+];
+
+export const COUNTRIES: Country[] = COUNTRY_ROWS.map(([iso2, iso3, fr, en, aliases = []]) => ({ iso2, iso3, fr, en, aliases }));
+
+// "The Gambia", "Gambia, The" and "Gambia" share a key
+export const countryKey = (name: string): string =>
+  normalizeText(name).replace(/^the /, "").replace(/ the$/, "");
+
+const COUNTRY_INDEX = new Map<string, Country>(
+  COUNTRIES.flatMap((country) =>
+    [country.fr, country.en, country.iso3, ...country.aliases].map((name) => [countryKey(name), country] as const)
+  )
+);
+
+export const COUNTRIES_BY_ISO3 = new Map(COUNTRIES.map((country) => [country.iso3, country]));
+
+// Names mapped by hand, keyed by country key, pointing at an ISO alpha-3 code
+export type CountryAliases = Record<string, string>;
+
+const STORAGE_KEY = "viz-my-xls.country-aliases";
+
+export const loadCountryAliases = (): CountryAliases => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+export const saveCountryAliases = (aliases: CountryAliases) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(aliases));
+};
+
+export const resolveCountry = (name: string, aliases: CountryAliases = {}): Country | null => {
+  const key = countryKey(name);
+  const custom = aliases[key];
+  return (custom ? COUNTRIES_BY_ISO3.get(custom) : undefined) ?? COUNTRY_INDEX.get(key) ?? null;
+};
+
+// Recognised countries take their French name and ISO codes. Every pass resolves the name from the file again,
+// kept in providedCountry, so that an edited or removed alias applies to records matched before.
+export const applyCountryCodes = (records: FreedomData[], aliases: CountryAliases): FreedomData[] =>
+  records.map((record) => {
+    const providedCountry = record.providedCountry ?? record.country;
+    const country = resolveCountry(providedCountry, aliases);
+    return country
+      ? { ...record, providedCountry, country: country.fr, iso2: country.iso2, iso3: country.iso3 }
+      : { ...record, providedCountry, country: providedCountry, iso2: undefined, iso3: undefined };
+  });
+
+export interface UnmatchedCountry {
+  name: string;
+  count: number;
+}
+
+export const unmatchedCountries = (records: FreedomData[]): UnmatchedCountry[] => {
+  const counts = new Map<string, number>();
+  records.forEach((record) => {
+    if (!record.iso3) counts.set(record.country, (counts.get(record.country) ?? 0) + 1);
+  });
+  return [...counts].map(([name, count]) => ({ name, count })).sort((a, b) => a.name.localeCompare(b.name, "fr"));
+};
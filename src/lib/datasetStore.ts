@@ -0,0 +1,150 @@
+import type { FreedomData } from "@/components/Dashboard";
+
+// What the library lists; the records themselves live in a separate store so that listing stays cheap
+export interface DatasetSummary {
+  id: string;
+  name: string;
+  importedAt: string;
+  updatedAt: string;
+  sourceFiles: string[];
+  rowCount: number;
+}
+
+export interface StoredDataset {
+  summary: DatasetSummary;
+  records: FreedomData[];
+}
+
+const DB_NAME = "viz-my-xls";
+const DB_VERSION = 1;
+const SUMMARY_STORE = "datasets";
+const RECORD_STORE = "records";
+
+const LAST_DATASET_KEY = "viz-my-xls.last-dataset";
+
+export const loadLastDatasetId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_DATASET_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveLastDatasetId = (id: string | null) => {
+  if (id) localStorage.setItem(LAST_DATASET_KEY, id);
+  else localStorage.removeItem(LAST_DATASET_KEY);
+};
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SUMMARY_STORE, { keyPath: "id" });
+      request.result.createObjectStore(RECORD_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const result = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs against both stores in one transaction and resolves once it has committed
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  run: (summaries: IDBObjectStore, records: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction([SUMMARY_STORE, RECORD_STORE], mode);
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const [value] = await Promise.all([run(transaction.objectStore(SUMMARY_STORE), transaction.objectStore(RECORD_STORE)), committed]);
+    return value;
+  } finally {
+    db.close();
+  }
+};
+
+const sourceFiles = (records: FreedomData[]): string[] =>
+  [...new Set(records.map((record) => record.source?.file).filter((file): file is string => Boolean(file)))];
+
+// Named after its first source file, "Données 2023.xlsx" giving "Données 2023"
+export const datasetNameFor = (records: FreedomData[]): string => {
+  const [first, ...others] = sourceFiles(records);
+  if (!first) return `Jeu de données du ${new Date().toLocaleDateString("fr-FR")}`;
+  const name = first.replace(/\.[^.]+$/, "");
+  return others.length > 0 ? `${name} (+${others.length})` : name;
+};
+
+const byLatestUpdate = (a: DatasetSummary, b: DatasetSummary) => b.updatedAt.localeCompare(a.updatedAt);
+
+export const listDatasets = (): Promise<DatasetSummary[]> =>
+  withStores("readonly", async (summaries) => (await result<DatasetSummary[]>(summaries.getAll())).sort(byLatestUpdate));
+
+export const loadDataset = (id: string): Promise<StoredDataset | undefined> =>
+  withStores("readonly", async (summaries, records) => {
+    const summary = await result<DatasetSummary | undefined>(summaries.get(id));
+    if (!summary) return undefined;
+    return { summary, records: (await result<FreedomData[] | undefined>(records.get(id))) ?? [] };
+  });
+
+export const createDataset = (name: string, records: FreedomData[]): Promise<DatasetSummary> => {
+  const now = new Date().toISOString();
+  const summary: DatasetSummary = {
+    id: crypto.randomUUID(),
+    name,
+    importedAt: now,
+    updatedAt: now,
+    sourceFiles: sourceFiles(records),
+    rowCount: records.length,
+  };
+  return withStores("readwrite", async (summaries, stored) => {
+    await result(summaries.put(summary));
+    await result(stored.put(records, summary.id));
+    return summary;
+  });
+};
+
+// Undefined when the dataset has been deleted meanwhile
+export const updateDatasetRecords = (id: string, records: FreedomData[]): Promise<DatasetSummary | undefined> =>
+  withStores("readwrite", async (summaries, stored) => {
+    const summary = await result<DatasetSummary | undefined>(summaries.get(id));
+    if (!summary) return undefined;
+    const updated: DatasetSummary = {
+      ...summary,
+      updatedAt: new Date().toISOString(),
+      sourceFiles: sourceFiles(records),
+      rowCount: records.length,
+    };
+    await result(summaries.put(updated));
+    await result(stored.put(records, id));
+    return updated;
+  });
+
+export const renameDataset = (id: string, name: string): Promise<DatasetSummary | undefined> =>
+  withStores("readwrite", async (summaries) => {
+    const summary = await result<DatasetSummary | undefined>(summaries.get(id));
+    if (!summary) return undefined;
+    const renamed = { ...summary, name };
+    await result(summaries.put(renamed));
+    return renamed;
+  });
+
+export const duplicateDataset = async (id: string): Promise<DatasetSummary | undefined> => {
+  const dataset = await loadDataset(id);
+  if (!dataset) return undefined;
+  return createDataset(`${dataset.summary.name} (copie)`, dataset.records);
+};
+
+export const deleteDataset = (id: string): Promise<void> =>
+  withStores("readwrite", async (summaries, records) => {
+    await result(summaries.delete(id));
+    await result(records.delete(id));
+  });
@@ -0,0 +1,132 @@
+import * as XLSX from "xlsx";
+import type { FreedomData } from "@/components/Dashboard";
+import { recordField } from "./metrics";
+import { RegionTaxonomy, recordRegion } from "./regions";
+import { DatasetSchema, MetricDefinition } from "./schema";
+import { SOURCE_ROW, SOURCE_SHEET, TableSort, TableView, sortRecords, sourceColumns, sourceValue } from "./table";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Normalized fields or the columns of the source files
+  view: TableView;
+  // Normalized view only: the metrics shown in the table, or every metric of the schema including hidden ones
+  visibleOnly: boolean;
+  keepSort: boolean;
+}
+
+export interface ExportContext {
+  records: FreedomData[];
+  schema: DatasetSchema;
+  metrics: MetricDefinition[];
+  taxonomy: RegionTaxonomy;
+  sort: TableSort;
+  // [label, value] pairs describing the filters, see describeFilters
+  filters: [string, string][];
+}
+
+type Cell = string | number;
+
+// Booleans read as in the table; numbers stay numbers so that spreadsheets can compute on them
+const exportCell = (value: unknown): Cell => {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "boolean") return value ? "Oui" : "Non";
+  return typeof value === "number" ? value : String(value);
+};
+
+const metricHeader = (metric: MetricDefinition) => (metric.kind === "numeric" ? `${metric.name} (${metric.label})` : metric.name);
+
+// Header row followed by one row per record
+export const exportTable = (context: ExportContext, options: ExportOptions): Cell[][] => {
+  const { records, schema, taxonomy } = context;
+  const ordered = options.keepSort ? sortRecords(records, context.sort, taxonomy) : records;
+
+  if (options.view === "source") {
+    const columns = sourceColumns(records);
+    return [
+      ["Source", "Ligne", ...columns],
+      ...ordered.map((record) => [SOURCE_SHEET, SOURCE_ROW, ...columns].map((column) => exportCell(sourceValue(record, column)))),
+    ];
+  }
+
+  const metrics = options.visibleOnly ? context.metrics : schema.metrics;
+  return [
+    [schema.entity.label, "ISO3", schema.group.label, schema.time.label, ...metrics.map(metricHeader)],
+    ...ordered.map((record) => [
+      exportCell(recordField(record, schema.entity.field)),
+      exportCell(record.iso3),
+      recordRegion(record, taxonomy),
+      exportCell(recordField(record, schema.time.field)),
+      ...metrics.map((metric) => exportCell(recordField(record, metric.field))),
+    ]),
+  ];
+};
+
+// French spreadsheet conventions, which the importer reads back: semicolons, decimal commas and a BOM for Excel
+const CSV_DELIMITER = ";";
+
+const csvCell = (cell: Cell): string => {
+  const text = typeof cell === "number" ? String(cell).replace(".", ",") : cell;
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Cell[][]): string =>
+  "\uFEFF" + rows.map((row) => row.map(csvCell).join(CSV_DELIMITER)).join("\r\n");
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// "Données 2023" exported on 18 October 2026 becomes "Données 2023 - 2026-10-18"
+export const exportFileName = (name: string, extension: string, date = new Date()): string =>
+  `${name.replace(/[\\/:*?"<>|]/g, "-")} - ${date.toISOString().slice(0, 10)}.${extension}`;
+
+// Column the rows are ordered by, in the words of the table header
+export const describeSort = ({ schema, sort }: ExportContext, options: ExportOptions): string => {
+  const { column, direction } = sort;
+  if (!options.keepSort || !column) return "Ordre des fichiers importés";
+  const sourceLabels: Record<string, string> = { [SOURCE_SHEET]: "Source", [SOURCE_ROW]: "Ligne" };
+  const label =
+    sort.view === "source"
+      ? sourceLabels[column] ?? column
+      : [schema.entity, schema.group, schema.time].find((dimension) => dimension.field === column)?.label ??
+        schema.metrics.find((metric) => metric.field === column)?.name ??
+        column;
+  return `${label}, ${direction === "asc" ? "croissant" : "décroissant"}`;
+};
+
+export const exportData = (context: ExportContext, options: ExportOptions, name: string) => {
+  const rows = exportTable(context, options);
+  const exportedAt = new Date();
+
+  if (options.format === "csv") {
+    downloadBlob(new Blob([toCsv(rows)], { type: "text/csv;charset=utf-8" }), exportFileName(name, "csv", exportedAt));
+    return;
+  }
+
+  // The second sheet records how the rows were selected
+  const filters = [
+    ["Paramètre", "Valeur"],
+    ...context.filters,
+    ["Colonnes", options.view === "source" ? "Colonnes sources" : options.visibleOnly ? "Colonnes visibles" : "Toutes les colonnes"],
+    ["Tri", describeSort(context, options)],
+    ["Lignes exportées", String(context.records.length)],
+    ["Exporté le", exportedAt.toLocaleString("fr-FR")],
+  ];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), "Données");
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(filters), "Filtres");
+  XLSX.writeFile(workbook, exportFileName(name, "xlsx", exportedAt));
+};
+
+// Caption of exported charts: where the figures come from and how the rows were selected
+export const describeSource = ({ records, filters }: ExportContext, name: string, date = new Date()): string[] => [
+  `Source : ${name}, ${records.length} lignes, exporté le ${date.toLocaleDateString("fr-FR")}`,
+  `Filtres : ${filters.map(([label, value]) => `${label} : ${value}`).join(" • ")}`,
+];
@@ -0,0 +1,103 @@
+import type { FreedomData } from "@/components/Dashboard";
+import { ColumnType, typedLabel } from "./columnTypes";
+import { recordField, toNumber } from "./metrics";
+import { RegionTaxonomy, TAXONOMY_LABELS } from "./regions";
+import { DatasetSchema, isRegionGroup } from "./schema";
+import { normalizeText } from "./utils";
+
+// One widget per column type: a category list, a numeric range, a period or a text search
+export type ColumnFilter =
+  | { kind: "category"; value: string }
+  | { kind: "range"; min?: number; max?: number }
+  | { kind: "period"; from?: string; to?: string }
+  | { kind: "text"; query: string };
+
+export type ColumnFilters = Record<string, ColumnFilter>;
+
+export const FILTER_KIND_BY_TYPE: Record<ColumnType, ColumnFilter["kind"]> = {
+  integer: "range",
+  decimal: "range",
+  percentage: "range",
+  date: "period",
+  boolean: "category",
+  categorical: "category",
+  text: "text",
+};
+
+export const isFilterActive = (filter: ColumnFilter | undefined): boolean => {
+  if (!filter) return false;
+  switch (filter.kind) {
+    case "category":
+      return filter.value !== "all";
+    case "range":
+      return filter.min !== undefined || filter.max !== undefined;
+    case "period":
+      return Boolean(filter.from || filter.to);
+    case "text":
+      return filter.query.trim() !== "";
+  }
+};
+
+// Periods compare as text on "YYYY" or "YYYY-MM-DD", a bound only as precise as it is written
+const matchesFilter = (record: FreedomData, field: string, filter: ColumnFilter): boolean => {
+  if (!isFilterActive(filter)) return true;
+  const value = recordField(record, field);
+
+  switch (filter.kind) {
+    case "category":
+      return typedLabel(value) === filter.value;
+    case "range": {
+      const number = toNumber(value);
+      return number !== null && (filter.min === undefined || number >= filter.min) && (filter.max === undefined || number <= filter.max);
+    }
+    case "period": {
+      if (typeof value !== "string") return false;
+      return (!filter.from || value >= filter.from) && (!filter.to || value.slice(0, filter.to.length) <= filter.to);
+    }
+    case "text":
+      return normalizeText(typedLabel(value)).includes(normalizeText(filter.query));
+  }
+};
+
+export const applyColumnFilters = (records: FreedomData[], filters: ColumnFilters): FreedomData[] => {
+  const active = Object.entries(filters).filter(([, filter]) => isFilterActive(filter));
+  return active.length === 0 ? records : records.filter((record) => active.every(([field, filter]) => matchesFilter(record, field, filter)));
+};
+
+// Dashboard filters as they stand, recorded alongside exports
+export interface FilterState {
+  search: string;
+  region: string;
+  taxonomy: RegionTaxonomy;
+  columns: ColumnFilters;
+}
+
+export const describeFilter = (filter: ColumnFilter): string => {
+  switch (filter.kind) {
+    case "category":
+      return filter.value;
+    case "range":
+      if (filter.min !== undefined && filter.max !== undefined) return `de ${filter.min} à ${filter.max}`;
+      return filter.min !== undefined ? `au moins ${filter.min}` : `au plus ${filter.max}`;
+    case "period":
+      if (filter.from && filter.to) return `du ${filter.from} au ${filter.to}`;
+      return filter.from ? `à partir de ${filter.from}` : `jusqu'à ${filter.to}`;
+    case "text":
+      return `contient « ${filter.query.trim()} »`;
+  }
+};
+
+const filterLabel = (schema: DatasetSchema, field: string): string =>
+  [schema.entity, schema.group, schema.time].find((dimension) => dimension.field === field)?.label ??
+  schema.metrics.find((metric) => metric.field === field)?.name ??
+  field;
+
+// One [label, value] pair per filter, active or not, so that a reader knows what was left unfiltered
+export const describeFilters = (state: FilterState, schema: DatasetSchema): [string, string][] => [
+  ["Recherche", state.search.trim() || "Aucune"],
+  ...(isRegionGroup(schema) ? [["Classification des régions", TAXONOMY_LABELS[state.taxonomy]] as [string, string]] : []),
+  [schema.group.label, state.region === "all" ? `Toutes les ${schema.group.plural}` : state.region],
+  ...Object.entries(state.columns)
+    .filter(([, filter]) => isFilterActive(filter))
+    .map(([field, filter]): [string, string] => [filterLabel(schema, field), describeFilter(filter)]),
+];
@@ -0,0 +1,207 @@
+import { RowProgressCallback, SheetRow, SheetSummary, collectHeaders, readWorkbook, summarizeMatrices } from "./workbook";
+
+type SourceFormat = "workbook" | "delimited" | "json";
+
+const EXTENSION_FORMATS: Record<string, SourceFormat> = {
+  xlsx: "workbook",
+  xls: "workbook",
+  ods: "workbook",
+  csv: "delimited",
+  tsv: "delimited",
+  txt: "delimited",
+  json: "json",
+};
+
+// Dropzone "accept" configuration for every supported source
+export const ACCEPTED_FILE_TYPES: Record<string, string[]> = {
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
+  "application/vnd.ms-excel": [".xls"],
+  "application/vnd.oasis.opendocument.spreadsheet": [".ods"],
+  "text/csv": [".csv"],
+  "text/tab-separated-values": [".tsv"],
+  "text/plain": [".txt"],
+  "application/json": [".json"],
+};
+
+export const SUPPORTED_EXTENSIONS_LABEL = ".xlsx, .xls, .ods, .csv, .tsv, .json";
+
+const DELIMITER_CANDIDATES = [",", ";", "\t", "|"];
+
+const DELIMITER_NAMES: Record<string, string> = {
+  ",": "virgule",
+  ";": "point-virgule",
+  "\t": "tabulation",
+  "|": "barre verticale",
+};
+
+const fileExtension = (fileName: string): string => fileName.split(".").pop()?.toLowerCase() ?? "";
+
+const baseName = (fileName: string): string => fileName.replace(/\.[^.]+$/, "");
+
+export const isSupportedFile = (fileName: string): boolean => fileExtension(fileName) in EXTENSION_FORMATS;
+
+// Honour byte order marks, then prefer UTF-8 and fall back to the usual Excel export encoding
+const decodeText = (data: ArrayBuffer): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(data);
+
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder("utf-16le").decode(bytes), encoding: "UTF-16 LE" };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder("utf-16be").decode(bytes), encoding: "UTF-16 BE" };
+  }
+
+  try {
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(bytes), encoding: "UTF-8" };
+  } catch {
+    return { text: new TextDecoder("windows-1252").decode(bytes), encoding: "Windows-1252" };
+  }
+};
+
+// Occurrences of a delimiter on a line, ignoring anything between double quotes
+const countOutsideQuotes = (line: string, delimiter: string): number => {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+};
+
+// The delimiter that splits the first lines into the same, largest number of columns wins
+export const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "").slice(0, 20);
+  let best = { delimiter: ",", score: 0 };
+
+  DELIMITER_CANDIDATES.forEach((delimiter) => {
+    const counts = lines.map((line) => countOutsideQuotes(line, delimiter));
+    const minimum = Math.min(...counts);
+    const consistent = counts.filter((count) => count === counts[0]).length / counts.length;
+    const score = minimum * consistent;
+    if (score > best.score) best = { delimiter, score };
+  });
+
+  return best.delimiter;
+};
+
+// RFC 4180 parsing: quoted fields may contain delimiters, doubled quotes and line breaks
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines are kept so that record positions match line numbers
+  return records;
+};
+
+// Plain numbers become numbers, as they would when read from a spreadsheet cell.
+// French exports use a decimal comma, which is only unambiguous when the delimiter is not a comma.
+const parseTextCell = (cell: string, decimalComma: boolean): unknown => {
+  const trimmed = cell.trim();
+  if (trimmed === "") return undefined;
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (decimalComma && /^-?\d+,\d+$/.test(trimmed)) return Number(trimmed.replace(",", "."));
+  return trimmed;
+};
+
+const readDelimited = (fileName: string, data: ArrayBuffer, onProgress?: RowProgressCallback): SheetSummary[] => {
+  const { text, encoding } = decodeText(data);
+  const delimiter = fileExtension(fileName) === "tsv" ? "\t" : detectDelimiter(text);
+  const decimalComma = delimiter !== ",";
+  const matrix = parseDelimited(text, delimiter).map((record, index) =>
+    // Header cells stay as written, even when they look like years
+    index === 0 ? record : record.map((cell) => parseTextCell(cell, decimalComma))
+  );
+
+  return summarizeMatrices([{
+    name: baseName(fileName),
+    matrix,
+    description: `Texte délimité • séparateur ${DELIMITER_NAMES[delimiter]} • ${encoding}`,
+  }], onProgress);
+};
+
+// Nested objects are flattened into "parent.child" columns
+const flattenObject = (value: Record<string, unknown>, prefix = "", target: SheetRow = {}): SheetRow => {
+  Object.entries(value).forEach(([key, cell]) => {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (cell !== null && typeof cell === "object" && !Array.isArray(cell)) {
+      flattenObject(cell as Record<string, unknown>, column, target);
+    } else {
+      target[column] = Array.isArray(cell) ? cell.join(", ") : cell;
+    }
+  });
+  return target;
+};
+
+const isObjectArray = (value: unknown): value is Record<string, unknown>[] =>
+  Array.isArray(value) && value.length > 0 && value.every((item) => item !== null && typeof item === "object" && !Array.isArray(item));
+
+const readJson = (fileName: string, data: ArrayBuffer, onProgress?: RowProgressCallback): SheetSummary[] => {
+  const parsed: unknown = JSON.parse(decodeText(data).text);
+
+  // API dumps often wrap the records, e.g. { "data": [...] }: every array of objects becomes a sheet
+  const collections: [string, Record<string, unknown>[]][] = isObjectArray(parsed)
+    ? [[baseName(fileName), parsed]]
+    : Object.entries((parsed ?? {}) as Record<string, unknown>)
+        .filter((entry): entry is [string, Record<string, unknown>[]] => isObjectArray(entry[1]));
+
+  if (collections.length === 0) {
+    throw new Error("Le fichier JSON ne contient aucun tableau d'objets.");
+  }
+
+  const total = collections.reduce((sum, [, items]) => sum + items.length, 0);
+  let converted = 0;
+
+  return collections.map(([name, items]) => {
+    const rows = items.map((item) => flattenObject(item));
+    converted += items.length;
+    onProgress?.(converted, total);
+    return { name, headers: collectHeaders(rows), rows, rowNumbers: rows.map((_, index) => index + 1), description: "JSON" };
+  });
+};
+
+export const readSourceFile = (fileName: string, data: ArrayBuffer, onProgress?: RowProgressCallback): SheetSummary[] => {
+  switch (EXTENSION_FORMATS[fileExtension(fileName)]) {
+    case "delimited":
+      return readDelimited(fileName, data, onProgress);
+    case "json":
+      return readJson(fileName, data, onProgress);
+    default:
+      return readWorkbook(data, onProgress);
+  }
+};
@@ -0,0 +1,469 @@
+import type { FreedomData } from "@/components/Dashboard";
+import { recordKey } from "./merge";
+import { toNumber } from "./metrics";
+import { normalizeText } from "./utils";
+
+// A small expression language for computed columns. Formulas are parsed into a tree and interpreted:
+// nothing in them is ever handed to eval, and they can only read fields of the records.
+
+export type FormulaValue = number | string | boolean | null;
+
+export type FormulaNode =
+  | { kind: "literal"; value: FormulaValue }
+  | { kind: "field"; name: string }
+  | { kind: "unary"; operator: "-" | "not"; operand: FormulaNode }
+  | { kind: "binary"; operator: string; left: FormulaNode; right: FormulaNode }
+  | { kind: "call"; name: string; args: FormulaNode[] };
+
+export class FormulaError extends Error {
+  constructor(message: string, readonly position?: number) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+// Fields of every record, readable by their name; unmapped columns are read by their header
+export const BASE_FIELDS = [
+  "country",
+  "region",
+  "year",
+  "status",
+  "politicalRights",
+  "civilLiberties",
+  "totalScore",
+  "politicalRightsScore",
+  "civilLibertiesScore",
+  "aggregateScore",
+  "iso2",
+  "iso3",
+];
+
+// Argument counts, and which functions look at other records
+const FUNCTIONS: Record<string, { min: number; max: number }> = {
+  if: { min: 3, max: 3 },
+  abs: { min: 1, max: 1 },
+  round: { min: 1, max: 2 },
+  min: { min: 2, max: Infinity },
+  max: { min: 2, max: Infinity },
+  coalesce: { min: 1, max: Infinity },
+  lag: { min: 1, max: 2 },
+  lead: { min: 1, max: 2 },
+  mean: { min: 1, max: Infinity },
+  sum: { min: 1, max: Infinity },
+  count: { min: 1, max: Infinity },
+  rank: { min: 1, max: Infinity },
+};
+
+const TIME_SHIFTS = ["lag", "lead"];
+const AGGREGATES = ["mean", "sum", "count", "rank"];
+
+const KEYWORDS: Record<string, FormulaNode> = {
+  true: { kind: "literal", value: true },
+  false: { kind: "literal", value: false },
+  null: { kind: "literal", value: null },
+};
+
+const COMPARISONS = ["=", "==", "!=", "<>", "<", "<=", ">", ">="];
+
+type Token =
+  | { type: "number"; value: number; position: number }
+  | { type: "string"; value: string; position: number }
+  | { type: "name"; value: string; position: number; bracketed: boolean }
+  | { type: "operator"; value: string; position: number };
+
+const OPERATOR_PATTERN = /^(==|!=|<>|<=|>=|&&|\|\||[-+*/%^=<>!(),;])/;
+const NAME_PATTERN = /^[\p{L}_][\p{L}\p{N}_.]*/u;
+const NUMBER_PATTERN = /^\d+(\.\d+)?/;
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const space = rest.match(/^\s+/);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+
+    const number = rest.match(NUMBER_PATTERN);
+    if (number) {
+      tokens.push({ type: "number", value: parseFloat(number[0]), position });
+      position += number[0].length;
+      continue;
+    }
+
+    if (rest[0] === '"' || rest[0] === "'") {
+      const end = rest.indexOf(rest[0], 1);
+      if (end < 0) throw new FormulaError("Texte non terminé : il manque un guillemet fermant.", position);
+      tokens.push({ type: "string", value: rest.slice(1, end), position });
+      position += end + 1;
+      continue;
+    }
+
+    // [Any header] names columns whose header has spaces or punctuation
+    if (rest[0] === "[") {
+      const end = rest.indexOf("]");
+      if (end < 0) throw new FormulaError("Nom de colonne non terminé : il manque « ] ».", position);
+      tokens.push({ type: "name", value: rest.slice(1, end).trim(), position, bracketed: true });
+      position += end + 1;
+      continue;
+    }
+
+    const name = rest.match(NAME_PATTERN);
+    if (name) {
+      tokens.push({ type: "name", value: name[0], position, bracketed: false });
+      position += name[0].length;
+      continue;
+    }
+
+    const operator = rest.match(OPERATOR_PATTERN);
+    if (operator) {
+      // "&&", "||" and "!" are spelled out, and ";" separates arguments as in French spreadsheets
+      const aliases: Record<string, string> = { "&&": "and", "||": "or", "!": "not", ";": "," };
+      tokens.push({ type: "operator", value: aliases[operator[0]] ?? operator[0], position });
+      position += operator[0].length;
+      continue;
+    }
+
+    throw new FormulaError(`Caractère inattendu « ${rest[0]} ».`, position);
+  }
+
+  return tokens;
+};
+
+// Recursive descent, from the loosest operator (or) to the tightest (^)
+export const parseFormula = (source: string): FormulaNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (value: string) => {
+    const token = peek();
+    if (!token) return false;
+    if (token.type === "operator") return token.value === value;
+    return token.type === "name" && !token.bracketed && token.value.toLowerCase() === value;
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      const token = peek();
+      throw new FormulaError(`« ${value} » attendu.`, token?.position ?? source.length);
+    }
+    index += 1;
+  };
+
+  const binary = (operators: string[], next: () => FormulaNode) => (): FormulaNode => {
+    let node = next();
+    for (;;) {
+      const operator = operators.find(isOperator);
+      if (!operator) return node;
+      index += 1;
+      node = { kind: "binary", operator, left: node, right: next() };
+    }
+  };
+
+  const primary = (): FormulaNode => {
+    const token = peek();
+    if (!token) throw new FormulaError("La formule est incomplète.", source.length);
+    index += 1;
+
+    if (token.type === "number" || token.type === "string") return { kind: "literal", value: token.value };
+    if (token.type === "operator") {
+      if (token.value !== "(") throw new FormulaError(`« ${token.value} » inattendu.`, token.position);
+      const node = or();
+      expect(")");
+      return node;
+    }
+
+    const keyword = token.bracketed ? undefined : KEYWORDS[token.value.toLowerCase()];
+    if (keyword) return keyword;
+    if (token.bracketed || !isOperator("(")) return { kind: "field", name: token.value };
+
+    const name = token.value.toLowerCase();
+    const signature = FUNCTIONS[name];
+    if (!signature) throw new FormulaError(`Fonction inconnue « ${token.value} ».`, token.position);
+    index += 1;
+    const args: FormulaNode[] = [];
+    if (!isOperator(")")) {
+      args.push(or());
+      while (isOperator(",")) {
+        index += 1;
+        args.push(or());
+      }
+    }
+    expect(")");
+
+    if (args.length < signature.min || args.length > signature.max) {
+      throw new FormulaError(`Nombre d'arguments incorrect pour ${name}.`, token.position);
+    }
+    if (TIME_SHIFTS.includes(name) && args[1] && !(args[1].kind === "literal" && typeof args[1].value === "number")) {
+      throw new FormulaError(`Le décalage de ${name} doit être un nombre d'années.`, token.position);
+    }
+    if (AGGREGATES.includes(name) && args.slice(1).some((arg) => arg.kind !== "field")) {
+      throw new FormulaError(`Les regroupements de ${name} doivent être des colonnes.`, token.position);
+    }
+    return { kind: "call", name, args };
+  };
+
+  const power = (): FormulaNode => {
+    const base = primary();
+    if (!isOperator("^")) return base;
+    index += 1;
+    return { kind: "binary", operator: "^", left: base, right: unary() };
+  };
+
+  const unary = (): FormulaNode => {
+    if (isOperator("-")) {
+      index += 1;
+      return { kind: "unary", operator: "-", operand: unary() };
+    }
+    return power();
+  };
+
+  const term = binary(["*", "/", "%"], unary);
+  const additive = binary(["+", "-"], term);
+
+  const comparison = (): FormulaNode => {
+    const left = additive();
+    const operator = COMPARISONS.find(isOperator);
+    if (!operator) return left;
+    index += 1;
+    return { kind: "binary", operator, left, right: additive() };
+  };
+
+  const not = (): FormulaNode => {
+    if (isOperator("not")) {
+      index += 1;
+      return { kind: "unary", operator: "not", operand: not() };
+    }
+    return comparison();
+  };
+
+  const and = binary(["and"], not);
+  const or = binary(["or"], and);
+
+  if (tokens.length === 0) throw new FormulaError("La formule est vide.", 0);
+  const node = or();
+  const extra = peek();
+  if (extra) throw new FormulaError("Suite de la formule inattendue.", extra.position);
+  return node;
+};
+
+// Columns a formula reads, to check them against the dataset before evaluating it
+export const formulaFields = (node: FormulaNode): string[] => {
+  switch (node.kind) {
+    case "field":
+      return [node.name];
+    case "unary":
+      return formulaFields(node.operand);
+    case "binary":
+      return [...formulaFields(node.left), ...formulaFields(node.right)];
+    case "call":
+      return node.args.flatMap(formulaFields);
+    default:
+      return [];
+  }
+};
+
+// Record fields first, then unmapped columns, then the computed columns defined before this one
+export const formulaField = (record: FreedomData, name: string): unknown =>
+  BASE_FIELDS.includes(name) ? record[name] : record.extra?.[name] ?? record.computed?.[name];
+
+const asNumber = (value: FormulaValue): number | null => (typeof value === "boolean" ? Number(value) : toNumber(value));
+
+const isTruthy = (value: FormulaValue): boolean =>
+  value === true || (typeof value === "number" && value !== 0) || (typeof value === "string" && value.trim() !== "");
+
+const toValue = (value: unknown): FormulaValue => {
+  if (value === undefined || value === null || value === "") return null;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  return typeof value === "boolean" ? value : String(value);
+};
+
+// Numbers compare as numbers, text regardless of case and accents
+const compare = (left: FormulaValue, right: FormulaValue): number | null => {
+  if (left === null || right === null) return null;
+  const leftNumber = asNumber(left);
+  const rightNumber = asNumber(right);
+  if (leftNumber !== null && rightNumber !== null) return leftNumber - rightNumber;
+  return normalizeText(String(left)).localeCompare(normalizeText(String(right)));
+};
+
+const arithmetic = (operator: string, left: number, right: number): number | null => {
+  switch (operator) {
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      return right === 0 ? null : left / right;
+    case "%":
+      return right === 0 ? null : left % right;
+    default: {
+      const result = Math.pow(left, right);
+      return Number.isFinite(result) ? result : null;
+    }
+  }
+};
+
+const comparisonResult = (operator: string, difference: number): boolean => {
+  switch (operator) {
+    case "<":
+      return difference < 0;
+    case "<=":
+      return difference <= 0;
+    case ">":
+      return difference > 0;
+    case ">=":
+      return difference >= 0;
+    case "!=":
+    case "<>":
+      return difference !== 0;
+    default:
+      return difference === 0;
+  }
+};
+
+// Values of an aggregate's group, summed and sorted once for all the records of the group
+interface GroupSummary {
+  sum: number;
+  // Ascending
+  sorted: number[];
+}
+
+const EMPTY_GROUP: GroupSummary = { sum: 0, sorted: [] };
+
+// Index of the first value above the given one
+const upperBound = (sorted: number[], value: number): number => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sorted[middle] <= value) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+const aggregate = (name: string, { sum, sorted }: GroupSummary, own: number | null): number | null => {
+  switch (name) {
+    case "count":
+      return sorted.length;
+    case "sum":
+      return sum;
+    case "mean":
+      return sorted.length > 0 ? sum / sorted.length : null;
+    default:
+      // Highest value first, ties share their rank
+      return own === null ? null : sorted.length - upperBound(sorted, own) + 1;
+  }
+};
+
+// Value of the formula on each record. Lag and lead look for the same entity some years apart;
+// aggregates take every record sharing the values of the grouping columns, over the whole dataset
+export const evaluateFormula = (node: FormulaNode, records: FreedomData[]): FormulaValue[] => {
+  const byKey = new Map(records.map((record) => [recordKey(record), record]));
+  const groups = new Map<FormulaNode, Map<string, GroupSummary>>();
+
+  const groupKey = (record: FreedomData, by: FormulaNode[]) =>
+    by.map((arg) => (arg.kind === "field" ? String(formulaField(record, arg.name) ?? "") : "")).join("\u0000");
+
+  const groupSummary = (call: Extract<FormulaNode, { kind: "call" }>, record: FreedomData): GroupSummary => {
+    let table = groups.get(call);
+    if (!table) {
+      table = new Map();
+      for (const member of records) {
+        const value = asNumber(evaluate(call.args[0], member));
+        if (value === null) continue;
+        const key = groupKey(member, call.args.slice(1));
+        const group = table.get(key);
+        if (group) {
+          group.sum += value;
+          group.sorted.push(value);
+        } else {
+          table.set(key, { sum: value, sorted: [value] });
+        }
+      }
+      table.forEach((group) => group.sorted.sort((a, b) => a - b));
+      groups.set(call, table);
+    }
+    return table.get(groupKey(record, call.args.slice(1))) ?? EMPTY_GROUP;
+  };
+
+  const call = (node: Extract<FormulaNode, { kind: "call" }>, record: FreedomData): FormulaValue => {
+    const argument = (position: number) => evaluate(node.args[position], record);
+    const numbers = () => node.args.map((arg) => asNumber(evaluate(arg, record)));
+
+    switch (node.name) {
+      case "if":
+        return isTruthy(argument(0)) ? argument(1) : argument(2);
+      case "abs": {
+        const value = asNumber(argument(0));
+        return value === null ? null : Math.abs(value);
+      }
+      case "round": {
+        const [value, digits] = numbers();
+        if (value === null) return null;
+        const factor = Math.pow(10, digits ?? 0);
+        return Math.round(value * factor) / factor;
+      }
+      case "min":
+      case "max": {
+        const values = numbers();
+        if (values.some((value) => value === null)) return null;
+        return node.name === "min" ? Math.min(...(values as number[])) : Math.max(...(values as number[]));
+      }
+      case "coalesce":
+        return node.args.map((arg) => evaluate(arg, record)).find((value) => value !== null) ?? null;
+      case "lag":
+      case "lead": {
+        const years = node.args[1]?.kind === "literal" ? Number(node.args[1].value) : 1;
+        const shift = node.name === "lag" ? -years : years;
+        const target = byKey.get(recordKey({ ...record, year: Number(record.year) + shift }));
+        return target ? evaluate(node.args[0], target) : null;
+      }
+      default:
+        return aggregate(node.name, groupSummary(node, record), asNumber(argument(0)));
+    }
+  };
+
+  const evaluate = (node: FormulaNode, record: FreedomData): FormulaValue => {
+    switch (node.kind) {
+      case "literal":
+        return node.value;
+      case "field":
+        return toValue(formulaField(record, node.name));
+      case "unary": {
+        const operand = evaluate(node.operand, record);
+        if (node.operator === "not") return operand === null ? null : !isTruthy(operand);
+        const value = asNumber(operand);
+        return value === null ? null : -value;
+      }
+      case "binary": {
+        const left = evaluate(node.left, record);
+        if (node.operator === "and" || node.operator === "or") {
+          if (node.operator === "and" && left !== null && !isTruthy(left)) return false;
+          if (node.operator === "or" && isTruthy(left)) return true;
+          const right = evaluate(node.right, record);
+          if (left === null || right === null) return null;
+          return isTruthy(right);
+        }
+        const right = evaluate(node.right, record);
+        if (COMPARISONS.includes(node.operator)) {
+          const difference = compare(left, right);
+          return difference === null ? null : comparisonResult(node.operator, difference);
+        }
+        const leftNumber = asNumber(left);
+        const rightNumber = asNumber(right);
+        return leftNumber === null || rightNumber === null ? null : arithmetic(node.operator, leftNumber, rightNumber);
+      }
+      case "call":
+        return call(node, record);
+    }
+  };
+
+  return records.map((record) => evaluate(node, record));
+};
@@ -0,0 +1,103 @@
+import { normalizeText } from "./utils";
+import type { CellMatrix, SheetRow } from "./workbook";
+
+// Column names of the long rows produced from the wide layout, recognised as-is by suggestMapping
+export const FREEDOM_HOUSE_HEADERS = ["Country", "Year", "PR", "CL", "Status"];
+
+const SUB_COLUMNS = ["pr", "cl", "status"];
+
+// Only the first rows are scanned for the PR/CL/Status header row
+const MAX_HEADER_ROW = 10;
+
+// Freedom House marks years without a rating with a dash
+const MISSING_VALUES = new Set(["", "-", "–", "—", "..", "n/a"]);
+
+export interface FreedomHouseLayout {
+  // Index of the PR/CL/Status header row in the matrix
+  headerRow: number;
+  countryColumn: number;
+  // Starting column of every PR/CL/Status group, with the year it belongs to
+  groups: { column: number; year: number }[];
+}
+
+const isSubColumn = (cell: unknown, index: number): boolean =>
+  normalizeText(String(cell ?? "")) === SUB_COLUMNS[index % SUB_COLUMNS.length];
+
+// Year cells are either plain numbers or labels such as "Nov.1978-Dec.1979", where the last year counts
+const parseYear = (cell: unknown): number | null => {
+  if (typeof cell === "number" && Number.isInteger(cell) && cell > 1900 && cell < 2100) return cell;
+  const years = String(cell ?? "").match(/(19|20)\d{2}/g);
+  return years ? Number(years[years.length - 1]) : null;
+};
+
+const groupStarts = (cells: unknown[]): number[] => {
+  const starts: number[] = [];
+  for (let column = 0; column + SUB_COLUMNS.length <= cells.length; column++) {
+    if (SUB_COLUMNS.every((_, offset) => isSubColumn(cells[column + offset], offset))) {
+      starts.push(column);
+      column += SUB_COLUMNS.length - 1;
+    }
+  }
+  return starts;
+};
+
+// The "All Data" workbook has one row of years (merged over three cells) above a row of PR/CL/Status sub-columns
+export const detectFreedomHouseLayout = (matrix: CellMatrix): FreedomHouseLayout | null => {
+  for (let headerRow = 1; headerRow < Math.min(matrix.length, MAX_HEADER_ROW); headerRow++) {
+    const starts = groupStarts(matrix[headerRow] ?? []);
+    if (starts.length === 0 || starts[0] === 0) continue;
+
+    // Closest row above that carries years; merged cells only hold a value in their first column
+    for (let yearRow = headerRow - 1; yearRow >= 0; yearRow--) {
+      const cells = matrix[yearRow] ?? [];
+      const groups = starts.flatMap((column) => {
+        const year = SUB_COLUMNS.map((_, offset) => parseYear(cells[column + offset])).find((value) => value !== null);
+        return year ? [{ column, year }] : [];
+      });
+      if (groups.length === starts.length) {
+        return { headerRow, countryColumn: starts[0] - 1, groups };
+      }
+    }
+  }
+  return null;
+};
+
+const cellValue = (cell: unknown): unknown => {
+  if (cell === null || cell === undefined) return undefined;
+  if (typeof cell === "string" && MISSING_VALUES.has(cell.trim().toLowerCase())) return undefined;
+  return typeof cell === "string" ? cell.trim() : cell;
+};
+
+// One row per country and year; years without any rating are left out
+export const unpivotFreedomHouse = (
+  matrix: CellMatrix,
+  layout: FreedomHouseLayout,
+  firstRow: number,
+  onRow?: () => void
+) => {
+  const rows: SheetRow[] = [];
+  const rowNumbers: number[] = [];
+
+  matrix.forEach((cells, index) => {
+    if (index === 0) return;
+    onRow?.();
+    if (index <= layout.headerRow || !cells) return;
+
+    const country = cellValue(cells[layout.countryColumn]);
+    if (country === undefined) return;
+
+    layout.groups.forEach(({ column, year }) => {
+      const [pr, cl, status] = SUB_COLUMNS.map((_, offset) => cellValue(cells[column + offset]));
+      if (pr === undefined && cl === undefined && status === undefined) return;
+
+      const row: SheetRow = { Country: country, Year: year };
+      if (pr !== undefined) row.PR = pr;
+      if (cl !== undefined) row.CL = cl;
+      if (status !== undefined) row.Status = status;
+      rows.push(row);
+      rowNumbers.push(firstRow + index);
+    });
+  });
+
+  return { rows, rowNumbers };
+};
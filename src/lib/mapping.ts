@@ -0,0 +1,250 @@
+import type { FreedomData } from "@/components/Dashboard";
+import { normalizeStatus, UNSPECIFIED_STATUS } from "./status";
+import { normalizeText } from "./utils";
+import { RowProgressCallback, SheetRow } from "./workbook";
+
+export type MappedField =
+  | "country"
+  | "region"
+  | "year"
+  | "status"
+  | "politicalRights"
+  | "civilLiberties"
+  | "politicalRightsScore"
+  | "civilLibertiesScore"
+  | "aggregateScore";
+
+export type ColumnMapping = Record<MappedField, string | null>;
+
+// Fields the entity, group and time dimensions of the dataset are read from
+export type DimensionField = "country" | "region" | "year";
+
+const DIMENSION_FIELDS: DimensionField[] = ["country", "region", "year"];
+
+interface FieldDefinition {
+  field: MappedField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+export const MAPPED_FIELDS: FieldDefinition[] = [
+  {
+    field: "country",
+    label: "Pays",
+    required: true,
+    aliases: ["pays", "country", "nation", "country/territory", "territory", "territoire", "etat", "state"],
+  },
+  {
+    field: "region",
+    label: "Région",
+    required: false,
+    aliases: ["region", "zone", "continent", "area"],
+  },
+  {
+    field: "year",
+    label: "Année",
+    required: false,
+    aliases: ["annee", "year", "edition", "survey edition", "date", "periode", "period"],
+  },
+  {
+    field: "status",
+    label: "Statut",
+    required: false,
+    aliases: ["statut", "status", "freedom status", "statut de liberte"],
+  },
+  {
+    field: "politicalRights",
+    label: "Droits politiques",
+    required: false,
+    // Bare "PR" and "CL" hold the subscores in Freedom House files since 2017, not the ratings
+    aliases: ["droits politiques", "political rights", "pr rating", "political rights rating"],
+  },
+  {
+    field: "civilLiberties",
+    label: "Libertés civiles",
+    required: false,
+    aliases: ["libertes civiles", "civil liberties", "cl rating", "civil liberties rating"],
+  },
+  {
+    field: "politicalRightsScore",
+    label: "Sous-score droits politiques (0–40)",
+    required: false,
+    aliases: ["pr score", "pr subscore", "political rights score", "sous score droits politiques", "pr", "total pr"],
+  },
+  {
+    field: "civilLibertiesScore",
+    label: "Sous-score libertés civiles (0–60)",
+    required: false,
+    aliases: ["cl score", "cl subscore", "civil liberties score", "sous score libertes civiles", "cl", "total cl"],
+  },
+  {
+    field: "aggregateScore",
+    label: "Score agrégé (0–100)",
+    required: false,
+    aliases: ["total", "total score", "aggregate score", "score agrege", "score global", "global score"],
+  },
+];
+
+const STORAGE_KEY = "viz-my-xls.column-mappings";
+
+const emptyMapping = (): ColumnMapping => ({
+  country: null,
+  region: null,
+  year: null,
+  status: null,
+  politicalRights: null,
+  civilLiberties: null,
+  politicalRightsScore: null,
+  civilLibertiesScore: null,
+  aggregateScore: null,
+});
+
+const matchScore = (header: string, alias: string): number => {
+  const normalizedHeader = normalizeText(header);
+  const normalizedAlias = normalizeText(alias);
+
+  if (normalizedHeader === normalizedAlias) return 3;
+  // Short aliases such as "pr" only count as whole words, otherwise "prix" would match
+  if (normalizedHeader.split(" ").includes(normalizedAlias)) return 2;
+  if (normalizedAlias.length > 3 && normalizedHeader.includes(normalizedAlias)) return 1;
+  return 0;
+};
+
+// A header named like the field, as opposed to a column mapped to it by hand
+export const isUsualHeader = (field: MappedField, header: string): boolean => {
+  const definition = MAPPED_FIELDS.find((candidate) => candidate.field === field);
+  return definition !== undefined && definition.aliases.some((alias) => matchScore(header, alias) >= 2);
+};
+
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const mapping = emptyMapping();
+  const used = new Set<string>();
+
+  MAPPED_FIELDS.forEach(({ field, aliases }) => {
+    let best: { header: string; score: number } | null = null;
+
+    for (const header of headers) {
+      if (used.has(header)) continue;
+      const score = Math.max(...aliases.map((alias) => matchScore(header, alias)));
+      if (score > 0 && (!best || score > best.score)) {
+        best = { header, score };
+      }
+    }
+
+    if (best) {
+      mapping[field] = best.header;
+      used.add(best.header);
+    }
+  });
+
+  return mapping;
+};
+
+// Two workbooks share a signature when they have the same set of headers, whatever their order
+export const headerSignature = (headers: string[]): string =>
+  [...new Set(headers.map(normalizeText))].sort().join("|");
+
+const readSavedMappings = (): Record<string, ColumnMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+export const loadSavedMapping = (headers: string[]): ColumnMapping | null => {
+  const saved = readSavedMappings()[headerSignature(headers)];
+  if (!saved) return null;
+
+  // Ignore entries pointing at headers that are no longer there
+  const mapping = emptyMapping();
+  MAPPED_FIELDS.forEach(({ field }) => {
+    mapping[field] = saved[field] && headers.includes(saved[field]) ? saved[field] : null;
+  });
+  return mapping;
+};
+
+export const saveMapping = (headers: string[], mapping: ColumnMapping) => {
+  const saved = readSavedMappings();
+  saved[headerSignature(headers)] = mapping;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+};
+
+export const isMappingComplete = (mapping: ColumnMapping): boolean =>
+  MAPPED_FIELDS.every(({ field, required }) => !required || mapping[field] !== null);
+
+const readCell = (row: SheetRow, header: string | null): unknown =>
+  header === null ? undefined : row[header];
+
+const hasValue = (value: unknown): boolean =>
+  value !== undefined && value !== null && String(value).trim() !== "";
+
+const toInteger = (value: unknown): number => parseInt(String(value));
+
+// Filled cells of the columns no field is mapped to, which become the extra metrics of the dataset schema
+const unmappedCells = (row: SheetRow, mapping: ColumnMapping): Record<string, unknown> => {
+  const mapped = new Set(Object.values(mapping));
+  return Object.fromEntries(Object.entries(row).filter(([header, value]) => !mapped.has(header) && hasValue(value)));
+};
+
+// Scores may be decimal and are left undefined when absent, unlike the 1–7 ratings defaulting to 0
+const toScore = (value: unknown): number | undefined => {
+  if (!hasValue(value)) return undefined;
+  const score = typeof value === "number" ? value : parseFloat(String(value).replace(",", "."));
+  return isNaN(score) ? undefined : score;
+};
+
+// Region given to rows whose file has no region column or an empty cell
+export const REGION_PLACEHOLDER = "Non spécifiée";
+
+export interface SheetOrigin {
+  file?: string;
+  sheet: string;
+  rowNumbers: number[];
+}
+
+export const applyMapping = (
+  rows: SheetRow[],
+  mapping: ColumnMapping,
+  origin: SheetOrigin,
+  onProgress?: RowProgressCallback
+): FreedomData[] => {
+  const dimensionHeaders = Object.fromEntries(
+    DIMENSION_FIELDS.filter((field) => mapping[field] !== null).map((field) => [field, mapping[field]])
+  );
+
+  return rows.map((row, index) => {
+    if ((index + 1) % 1000 === 0 || index + 1 === rows.length) onProgress?.(index + 1, rows.length);
+
+    const countryCell = readCell(row, mapping.country);
+    const regionCell = readCell(row, mapping.region);
+    const statusCell = readCell(row, mapping.status);
+    const year = toInteger(readCell(row, mapping.year));
+    const politicalRights = toInteger(readCell(row, mapping.politicalRights));
+    const civilLiberties = toInteger(readCell(row, mapping.civilLiberties));
+    const politicalRightsScore = toScore(readCell(row, mapping.politicalRightsScore));
+    const civilLibertiesScore = toScore(readCell(row, mapping.civilLibertiesScore));
+    const aggregateScore = toScore(readCell(row, mapping.aggregateScore));
+
+    return {
+      country: hasValue(countryCell) ? String(countryCell).trim() : `Pays ${index}`,
+      region: hasValue(regionCell) ? String(regionCell).trim() : REGION_PLACEHOLDER,
+      year: isNaN(year) ? new Date().getFullYear() : year,
+      status: normalizeStatus(statusCell) ?? ((hasValue(statusCell) ? String(statusCell).trim() : UNSPECIFIED_STATUS) as FreedomData["status"]),
+      politicalRights: isNaN(politicalRights) ? 0 : politicalRights,
+      civilLiberties: isNaN(civilLiberties) ? 0 : civilLiberties,
+      totalScore: (isNaN(politicalRights) ? 0 : politicalRights) + (isNaN(civilLiberties) ? 0 : civilLiberties),
+      politicalRightsScore,
+      civilLibertiesScore,
+      // The aggregate is by definition the sum of both subscores
+      aggregateScore: aggregateScore ??
+        (politicalRightsScore !== undefined && civilLibertiesScore !== undefined
+          ? politicalRightsScore + civilLibertiesScore
+          : undefined),
+      extra: unmappedCells(row, mapping),
+      // Raw cells live apart so that colliding headers cannot overwrite normalized fields
+      source: { file: origin.file, sheet: origin.sheet, row: origin.rowNumbers[index], raw: row, dimensionHeaders },
+    };
+  });
+};
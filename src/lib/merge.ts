@@ -0,0 +1,202 @@
+import type { FreedomData } from "@/components/Dashboard";
+import { normalizeText } from "./utils";
+
+export interface RecordBatch {
+  label: string;
+  records: FreedomData[];
+}
+
+export interface MergeCandidate {
+  label: string;
+  record: FreedomData;
+}
+
+export interface MergeConflict {
+  key: string;
+  country: string;
+  year: number;
+  candidates: MergeCandidate[];
+  fields: CompareField[];
+}
+
+export interface MergeResult {
+  records: FreedomData[];
+  conflicts: MergeConflict[];
+}
+
+// Normalized fields whose disagreement makes two records with the same key a conflict. totalScore is left out,
+// being the sum of the two ratings; "extra" stands for the unmapped columns both records fill.
+export const COMPARED_FIELDS = [
+  "region",
+  "status",
+  "politicalRights",
+  "civilLiberties",
+  "politicalRightsScore",
+  "civilLibertiesScore",
+  "aggregateScore",
+  "extra",
+] as const;
+
+export type CompareField = (typeof COMPARED_FIELDS)[number];
+
+// Recognised countries are keyed by ISO code, so "Russie" and "Russian Federation" land on the same record
+export const recordKey = (record: FreedomData): string =>
+  `${record.iso3 ?? normalizeText(record.country)}::${record.year}`;
+
+const filledExtra = (record: FreedomData): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(record.extra ?? {}).filter(([, value]) => value !== undefined && value !== null && value !== "")
+  );
+
+// Unmapped columns sorted by header, so that two files listing them in another order read the same
+const extraValue = (record: FreedomData): string =>
+  Object.entries(filledExtra(record))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([header, value]) => `${header} : ${String(value)}`)
+    .join(" • ");
+
+// A column filled by one record only is an addition: the records disagree on a column they both fill
+const extraDiffers = (records: FreedomData[]): boolean => {
+  const values = new Map<string, Set<string>>();
+  records.forEach((record) =>
+    Object.entries(filledExtra(record)).forEach(([header, value]) => {
+      if (!values.has(header)) values.set(header, new Set());
+      values.get(header).add(String(value));
+    })
+  );
+  return [...values.values()].some((set) => set.size > 1);
+};
+
+// The unmapped columns of a record, completed by those only the others fill
+const withAddedColumns = (record: FreedomData, others: FreedomData[]): FreedomData => {
+  const own = filledExtra(record);
+  const extra = Object.assign({}, ...others.map(filledExtra).reverse(), own);
+  return Object.keys(extra).length > Object.keys(own).length ? { ...record, extra } : record;
+};
+
+// Statuses filled in by the status rules are not part of the source, compare what the file said
+export const comparedValue = (record: FreedomData, field: CompareField): string => {
+  if (field === "status") return String(record.providedStatus ?? record.status);
+  if (field === "extra") return extraValue(record);
+  return String(record[field] ?? "");
+};
+
+const differingFields = (records: FreedomData[]): CompareField[] =>
+  COMPARED_FIELDS.filter((field) =>
+    field === "extra" ? extraDiffers(records) : new Set(records.map((record) => comparedValue(record, field))).size > 1
+  );
+
+// Records are merged on (country, year): identical duplicates collapse silently, differing ones are
+// reported as conflicts and resolved to the first candidate until the user picks another one
+export const mergeBatches = (batches: RecordBatch[]): MergeResult => {
+  const groups = new Map<string, MergeCandidate[]>();
+
+  batches.forEach(({ label, records }) => {
+    records.forEach((record) => {
+      const key = recordKey(record);
+      const candidates = groups.get(key);
+      if (candidates) candidates.push({ label, record });
+      else groups.set(key, [{ label, record }]);
+    });
+  });
+
+  const records: FreedomData[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  groups.forEach((candidates, key) => {
+    const candidateRecords = candidates.map(({ record }) => record);
+    records.push(withAddedColumns(candidates[0].record, candidateRecords));
+    const fields = differingFields(candidateRecords);
+    if (fields.length > 0) {
+      conflicts.push({
+        key,
+        country: candidates[0].record.country,
+        year: candidates[0].record.year,
+        candidates,
+        fields,
+      });
+    }
+  });
+
+  return { records, conflicts };
+};
+
+// Swaps in the candidate chosen for each conflict, keyed by record key
+export const resolveConflicts = (
+  result: MergeResult,
+  choices: Record<string, number>
+): FreedomData[] => {
+  const chosen = new Map(
+    result.conflicts.map((conflict) => [
+      conflict.key,
+      withAddedColumns(
+        conflict.candidates[choices[conflict.key] ?? 0].record,
+        conflict.candidates.map(({ record }) => record)
+      ),
+    ])
+  );
+  return result.records.map((record) => chosen.get(recordKey(record)) ?? record);
+};
+
+export type ImportMode = "replace" | "append" | "upsert";
+
+export interface ImportSummary {
+  mode: ImportMode;
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface ImportResult {
+  records: FreedomData[];
+  summary: ImportSummary;
+}
+
+const isSameRecord = (a: FreedomData, b: FreedomData): boolean => differingFields([a, b]).length === 0;
+
+// Applies freshly imported records to the current dataset according to the chosen mode
+export const applyImport = (existing: FreedomData[], incoming: FreedomData[], mode: ImportMode): ImportResult => {
+  switch (mode) {
+    case "replace":
+      return {
+        records: incoming,
+        summary: { mode, added: incoming.length, updated: 0, unchanged: 0, removed: existing.length },
+      };
+    case "append":
+      return {
+        records: [...existing, ...incoming],
+        summary: { mode, added: incoming.length, updated: 0, unchanged: existing.length, removed: 0 },
+      };
+    default: {
+      const incomingByKey = new Map(incoming.map((record) => [recordKey(record), record]));
+      let updated = 0;
+      let unchanged = 0;
+
+      const records = existing.map((record) => {
+        const key = recordKey(record);
+        const replacement = incomingByKey.get(key);
+        if (!replacement) {
+          unchanged++;
+          return record;
+        }
+
+        // Columns only one side fills are kept, whichever record wins
+        incomingByKey.delete(key);
+        if (isSameRecord(record, replacement)) {
+          unchanged++;
+          return withAddedColumns(record, [replacement]);
+        }
+        updated++;
+        return withAddedColumns(replacement, [record]);
+      });
+
+      // Whatever is left in the map matched no existing (country, year)
+      const added = [...incomingByKey.values()];
+      return {
+        records: [...records, ...added],
+        summary: { mode, added: added.length, updated, unchanged, removed: 0 },
+      };
+    }
+  }
+};
@@ -0,0 +1,184 @@
+import type { FreedomData } from "@/components/Dashboard";
+
+// The three score dimensions shown by the dashboard, each available as a rating or as a Freedom House score
+export type ScoreMetric = "politicalRights" | "civilLiberties" | "total";
+
+// "rating" is the 1–7 scale used until 2016, "score" the 0–100 aggregate and its subscores used since
+export type ScaleKind = "rating" | "score";
+
+export type ScaleSelection = Record<ScoreMetric, ScaleKind>;
+
+// On the 1–7 ratings 1 is the most free, on the scores 100 is
+export type Polarity = "higher" | "lower";
+
+export type ScoreField =
+  | "politicalRights"
+  | "civilLiberties"
+  | "totalScore"
+  | "politicalRightsScore"
+  | "civilLibertiesScore"
+  | "aggregateScore";
+
+export interface MetricScale {
+  field: string;
+  label: string;
+  min: number;
+  max: number;
+  polarity: Polarity;
+}
+
+interface ScoreScale extends MetricScale {
+  field: ScoreField;
+}
+
+export type PolaritySelection = Record<ScoreField, Polarity>;
+
+export type Trend = "improving" | "declining" | "stable";
+
+export const POLARITY_LABELS: Record<Polarity, string> = {
+  higher: "Plus haut = mieux",
+  lower: "Plus bas = mieux",
+};
+
+export const METRIC_LABELS: Record<ScoreMetric, string> = {
+  politicalRights: "Droits politiques",
+  civilLiberties: "Libertés civiles",
+  total: "Score total",
+};
+
+export const METRIC_SCALES: Record<ScoreMetric, Record<ScaleKind, ScoreScale>> = {
+  politicalRights: {
+    rating: { field: "politicalRights", label: "Note 1–7", min: 1, max: 7, polarity: "lower" },
+    score: { field: "politicalRightsScore", label: "Sous-score 0–40", min: 0, max: 40, polarity: "higher" },
+  },
+  civilLiberties: {
+    rating: { field: "civilLiberties", label: "Note 1–7", min: 1, max: 7, polarity: "lower" },
+    score: { field: "civilLibertiesScore", label: "Sous-score 0–60", min: 0, max: 60, polarity: "higher" },
+  },
+  total: {
+    rating: { field: "totalScore", label: "Somme des notes 2–14", min: 2, max: 14, polarity: "lower" },
+    score: { field: "aggregateScore", label: "Score agrégé 0–100", min: 0, max: 100, polarity: "higher" },
+  },
+};
+
+export const DEFAULT_SCALES: ScaleSelection = {
+  politicalRights: "rating",
+  civilLiberties: "rating",
+  total: "rating",
+};
+
+// Range of every imported score field, used to validate source cells
+export const FIELD_RANGES: Record<ScoreField, { min: number; max: number }> = Object.fromEntries(
+  Object.values(METRIC_SCALES).flatMap((scales) => Object.values(scales).map(({ field, min, max }) => [field, { min, max }]))
+) as Record<ScoreField, { min: number; max: number }>;
+
+export const DEFAULT_POLARITIES: PolaritySelection = Object.fromEntries(
+  Object.values(METRIC_SCALES).flatMap((scales) => Object.values(scales).map(({ field, polarity }) => [field, polarity]))
+) as PolaritySelection;
+
+const POLARITY_STORAGE_KEY = "viz-my-xls.metric-polarities";
+
+export const loadPolarities = (): PolaritySelection => {
+  try {
+    return { ...DEFAULT_POLARITIES, ...JSON.parse(localStorage.getItem(POLARITY_STORAGE_KEY) || "{}") };
+  } catch {
+    return DEFAULT_POLARITIES;
+  }
+};
+
+export const savePolarities = (polarities: PolaritySelection) => {
+  localStorage.setItem(POLARITY_STORAGE_KEY, JSON.stringify(polarities));
+};
+
+// Metric the field belongs to when it is one of the Freedom House scores
+export const scoreMetricOf = (field: string): ScoreMetric | undefined =>
+  (Object.keys(METRIC_SCALES) as ScoreMetric[]).find((metric) =>
+    Object.values(METRIC_SCALES[metric]).some((scale) => scale.field === field)
+  );
+
+// Columns the mapping left aside are kept in record.extra and addressed as "extra.<header>"
+export const EXTRA_FIELD_PREFIX = "extra.";
+
+// Computed columns, see lib/computed, are kept in record.computed and addressed as "computed.<name>"
+export const COMPUTED_FIELD_PREFIX = "computed.";
+
+export const recordField = (record: FreedomData, field: string): unknown => {
+  if (field.startsWith(EXTRA_FIELD_PREFIX)) return record.extra?.[field.slice(EXTRA_FIELD_PREFIX.length)];
+  if (field.startsWith(COMPUTED_FIELD_PREFIX)) return record.computed?.[field.slice(COMPUTED_FIELD_PREFIX.length)];
+  return record[field];
+};
+
+// Numbers and numeric text such as "12,5", as found in unmapped spreadsheet cells
+export const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isNaN(value) ? null : value;
+  if (typeof value !== "string" || !/^\s*-?\d+([.,]\d+)?\s*$/.test(value)) return null;
+  return parseFloat(value.replace(",", "."));
+};
+
+export const metricScale = (
+  metric: ScoreMetric,
+  scales: ScaleSelection,
+  polarities: PolaritySelection = DEFAULT_POLARITIES
+): MetricScale => {
+  const scale = METRIC_SCALES[metric][scales[metric]];
+  return { ...scale, polarity: polarities[scale.field] ?? scale.polarity };
+};
+
+// Missing scores and the zero placeholders left by the import fall outside the scale and read as null
+export const metricValue = (record: FreedomData, scale: MetricScale): number | null => {
+  const value = toNumber(recordField(record, scale.field));
+  return value !== null && value >= scale.min && value <= scale.max ? value : null;
+};
+
+export const averageMetric = (records: FreedomData[], scale: MetricScale): number | null => {
+  const values = records.map((record) => metricValue(record, scale)).filter((value): value is number => value !== null);
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+};
+
+// Position of a value between the worst (0) and the best (100) end of its scale, so bars grow with freedom
+export const qualityPercent = (value: number, scale: MetricScale): number => {
+  const ratio = (value - scale.min) / (scale.max - scale.min);
+  return Math.min(Math.max((scale.polarity === "higher" ? ratio : 1 - ratio) * 100, 0), 100);
+};
+
+// Positive when a is better than b
+export const compareQuality = (a: number, b: number, scale: MetricScale): number =>
+  scale.polarity === "higher" ? a - b : b - a;
+
+export const classifyTrend = (first: number, last: number, scale: MetricScale, margin: number): Trend => {
+  const change = compareQuality(last, first, scale);
+  if (change > margin) return "improving";
+  if (change < -margin) return "declining";
+  return "stable";
+};
+
+// Rank 1 goes to the best value, ties share a rank; records without a value get none
+export const rankRecords = (records: FreedomData[], scale: MetricScale): Map<FreedomData, number> => {
+  const values = records
+    .map((record) => ({ record, value: metricValue(record, scale) }))
+    .filter((entry): entry is { record: FreedomData; value: number } => entry.value !== null)
+    .sort((a, b) => compareQuality(b.value, a.value, scale));
+
+  const ranks = new Map<FreedomData, number>();
+  values.forEach(({ record, value }, index) => {
+    const previous = values[index - 1];
+    ranks.set(record, previous && previous.value === value ? ranks.get(previous.record) ?? index + 1 : index + 1);
+  });
+  return ranks;
+};
+
+// Axis shared by several metrics, wide enough for each of their scales
+export const axisDomain = (scales: MetricScale[]): [number, number] => [
+  Math.min(0, ...scales.map((scale) => scale.min)),
+  Math.max(...scales.map((scale) => scale.max)),
+];
+
+// Scores are preferred for a metric as soon as most records carry them
+export const detectScales = (records: FreedomData[]): ScaleSelection => {
+  const pick = (metric: ScoreMetric): ScaleKind => {
+    const scale = METRIC_SCALES[metric].score;
+    const scored = records.filter((record) => metricValue(record, scale) !== null).length;
+    return records.length > 0 && scored * 2 >= records.length ? "score" : "rating";
+  };
+  return { politicalRights: pick("politicalRights"), civilLiberties: pick("civilLiberties"), total: pick("total") };
+};
@@ -0,0 +1,120 @@
+import type { FreedomData } from "@/components/Dashboard";
+import { REGION_PLACEHOLDER } from "./mapping";
+
+// "dataset" is the region read from the file; the others are built-in classifications looked up by ISO code
+export type RegionTaxonomy = "dataset" | "freedomHouse" | "unRegion" | "unSubregion" | "worldBank";
+
+export const TAXONOMY_LABELS: Record<RegionTaxonomy, string> = {
+  dataset: "Régions du fichier",
+  freedomHouse: "Régions Freedom House",
+  unRegion: "Régions ONU (M49)",
+  unSubregion: "Sous-régions ONU (M49)",
+  worldBank: "Régions Banque mondiale",
+};
+
+// Each classification lists its regions with the ISO alpha-3 codes they contain
+type RegionTable = Record<string, string>;
+
+const FREEDOM_HOUSE_REGIONS: RegionTable = {
+  "Afrique subsaharienne":
+    "AGO BEN BWA BFA BDI CPV CMR CAF TCD COM COG COD CIV DJI GNQ ERI SWZ ETH GAB GMB GHA GIN GNB KEN LSO LBR MDG " +
+    "MWI MLI MRT MUS MOZ NAM NER NGA RWA STP SEN SYC SLE SOM ZAF SSD SDN TZA TGO UGA ZMB ZWE",
+  Amériques:
+    "ATG ARG BHS BRB BLZ BOL BRA CAN CHL COL CRI CUB DMA DOM ECU SLV GRD GTM GUY HTI HND JAM MEX NIC PAN PRY PER " +
+    "KNA LCA VCT SUR TTO USA URY VEN PRI",
+  "Asie-Pacifique":
+    "AFG AUS BGD BTN BRN KHM CHN FJI IND IDN JPN KIR PRK KOR LAO MYS MDV MHL FSM MNG MMR NRU NPL NZL PAK PLW PNG " +
+    "PHL WSM SGP SLB LKA TWN THA TLS TON TUV VUT VNM HKG MAC",
+  Eurasie: "ARM AZE BLR GEO KAZ KGZ MDA RUS TJK TKM UKR UZB SUN",
+  Europe:
+    "ALB AND AUT BEL BIH BGR HRV CYP CZE DNK EST FIN FRA DEU GRC HUN ISL IRL ITA XKX LVA LIE LTU LUX MLT MCO MNE " +
+    "NLD MKD NOR POL PRT ROU SMR SRB SVK SVN ESP SWE CHE TUR GBR VAT CSK DDR YUG",
+  "Moyen-Orient et Afrique du Nord": "DZA BHR EGY IRN IRQ ISR JOR KWT LBN LBY MAR OMN QAT SAU SYR TUN ARE YEM PSE ESH",
+};
+
+// M49 subregions, with the intermediate regions of Africa and Latin America, grouped under their region
+const UN_SUBREGIONS: Record<string, RegionTable> = {
+  Afrique: {
+    "Afrique du Nord": "DZA EGY LBY MAR SDN TUN ESH",
+    "Afrique de l'Est": "BDI COM DJI ERI ETH KEN MDG MWI MUS MOZ RWA SYC SOM SSD TZA UGA ZMB ZWE",
+    "Afrique centrale": "AGO CMR CAF TCD COG COD GNQ GAB STP",
+    "Afrique australe": "BWA SWZ LSO NAM ZAF",
+    "Afrique de l'Ouest": "BEN BFA CPV CIV GMB GHA GIN GNB LBR MLI MRT NER NGA SEN SLE TGO",
+  },
+  Amériques: {
+    Caraïbes: "ATG BHS BRB CUB DMA DOM GRD HTI JAM KNA LCA VCT TTO PRI",
+    "Amérique centrale": "BLZ CRI SLV GTM HND MEX NIC PAN",
+    "Amérique du Sud": "ARG BOL BRA CHL COL ECU GUY PRY PER SUR URY VEN",
+    "Amérique du Nord": "CAN USA",
+  },
+  Asie: {
+    "Asie centrale": "KAZ KGZ TJK TKM UZB",
+    "Asie de l'Est": "CHN HKG MAC PRK JPN MNG KOR TWN",
+    "Asie du Sud-Est": "BRN KHM IDN LAO MYS MMR PHL SGP THA TLS VNM",
+    "Asie du Sud": "AFG BGD BTN IND IRN MDV NPL PAK LKA",
+    "Asie de l'Ouest": "ARM AZE BHR CYP GEO IRQ ISR JOR KWT LBN OMN QAT SAU PSE SYR TUR ARE YEM",
+  },
+  Europe: {
+    "Europe de l'Est": "BLR BGR CZE HUN POL MDA ROU RUS SVK UKR CSK DDR SUN",
+    "Europe du Nord": "DNK EST FIN ISL IRL LVA LTU NOR SWE GBR",
+    "Europe du Sud": "ALB AND BIH HRV GRC VAT ITA MLT MNE MKD PRT SMR SRB SVN ESP XKX YUG",
+    "Europe de l'Ouest": "AUT BEL FRA DEU LIE LUX MCO NLD CHE",
+  },
+  Océanie: {
+    "Australie et Nouvelle-Zélande": "AUS NZL",
+    Mélanésie: "FJI PNG SLB VUT",
+    Micronésie: "KIR MHL FSM NRU PLW",
+    Polynésie: "WSM TON TUV",
+  },
+};
+
+const WORLD_BANK_REGIONS: RegionTable = {
+  "Asie de l'Est et Pacifique":
+    "AUS BRN KHM CHN FJI IDN JPN KIR PRK KOR LAO MYS MHL FSM MNG MMR NRU NZL PLW PNG PHL WSM SGP SLB TWN THA TLS " +
+    "TON TUV VUT VNM HKG MAC",
+  "Europe et Asie centrale":
+    "ALB AND ARM AUT AZE BLR BEL BIH BGR HRV CYP CZE DNK EST FIN FRA GEO DEU GRC HUN ISL IRL ITA KAZ XKX KGZ LVA " +
+    "LIE LTU LUX MDA MCO MNE NLD MKD NOR POL PRT ROU RUS SMR SRB SVK SVN ESP SWE CHE TJK TUR TKM UKR GBR UZB VAT " +
+    "CSK DDR SUN YUG",
+  "Amérique latine et Caraïbes":
+    "ATG ARG BHS BRB BLZ BOL BRA CHL COL CRI CUB DMA DOM ECU SLV GRD GTM GUY HTI HND JAM MEX NIC PAN PRY PER KNA " +
+    "LCA VCT SUR TTO URY VEN PRI",
+  "Moyen-Orient et Afrique du Nord": "DZA BHR DJI EGY IRN IRQ ISR JOR KWT LBN LBY MLT MAR OMN QAT SAU SYR TUN ARE PSE YEM ESH",
+  "Amérique du Nord": "CAN USA",
+  "Asie du Sud": "AFG BGD BTN IND MDV NPL PAK LKA",
+  "Afrique subsaharienne":
+    "AGO BEN BWA BFA BDI CPV CMR CAF TCD COM COG COD CIV GNQ ERI SWZ ETH GAB GMB GHA GIN GNB KEN LSO LBR MDG MWI " +
+    "MLI MRT MUS MOZ NAM NER NGA RWA STP SEN SYC SLE SOM ZAF SSD SDN TZA TGO UGA ZMB ZWE",
+};
+
+const indexRegions = (table: RegionTable): Map<string, string> =>
+  new Map(Object.entries(table).flatMap(([region, codes]) => codes.split(" ").map((iso3) => [iso3, region] as const)));
+
+const UN_REGIONS: RegionTable = Object.fromEntries(
+  Object.entries(UN_SUBREGIONS).map(([region, subregions]) => [region, Object.values(subregions).join(" ")])
+);
+
+const TAXONOMY_INDEX: Record<Exclude<RegionTaxonomy, "dataset">, Map<string, string>> = {
+  freedomHouse: indexRegions(FREEDOM_HOUSE_REGIONS),
+  unRegion: indexRegions(UN_REGIONS),
+  unSubregion: indexRegions(Object.assign({}, ...Object.values(UN_SUBREGIONS))),
+  worldBank: indexRegions(WORLD_BANK_REGIONS),
+};
+
+// Rows imported without a region fall back on the Freedom House region of their country
+export const recordRegion = (record: FreedomData, taxonomy: RegionTaxonomy): string => {
+  if (taxonomy === "dataset" && record.region !== REGION_PLACEHOLDER) return record.region;
+  const index = TAXONOMY_INDEX[taxonomy === "dataset" ? "freedomHouse" : taxonomy];
+  return (record.iso3 && index.get(record.iso3)) || REGION_PLACEHOLDER;
+};
+
+const STORAGE_KEY = "viz-my-xls.region-taxonomy";
+
+export const loadTaxonomy = (): RegionTaxonomy => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored && stored in TAXONOMY_LABELS ? (stored as RegionTaxonomy) : "dataset";
+};
+
+export const saveTaxonomy = (taxonomy: RegionTaxonomy) => {
+  localStorage.setItem(STORAGE_KEY, taxonomy);
+};
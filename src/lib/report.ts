@@ -0,0 +1,273 @@
+import { jsPDF } from "jspdf";
+import { svg2pdf } from "svg2pdf.js";
+import { ExportContext, ExportOptions, describeSort, exportFileName, exportTable } from "./export";
+import { CategoryTone } from "./schema";
+import { TREND_LABELS, computeStats, formatAverage } from "./stats";
+import { RenderedChart, inlineSvgStyles, rgbComponents } from "./svg";
+
+// Landscape A4, in millimetres
+const PAGE_WIDTH = 297;
+const PAGE_HEIGHT = 210;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+type Rgb = [number, number, number];
+
+// The light theme colours of index.css, which the PDF cannot read from the stylesheet
+const TEXT: Rgb = [51, 65, 85];
+const MUTED: Rgb = [100, 116, 139];
+const BORDER: Rgb = [226, 232, 240];
+const TONE_COLORS: Record<CategoryTone | "none", Rgb> = {
+  positive: [34, 197, 94],
+  neutral: [217, 119, 6],
+  negative: [239, 68, 68],
+  none: [59, 130, 246],
+};
+
+// The appendix lists the rows as the table shows them
+const TABLE_OPTIONS: ExportOptions = { format: "csv", view: "normalized", visibleOnly: true, keepSort: true };
+
+const setColor = (doc: jsPDF, [r, g, b]: Rgb) => doc.setTextColor(r, g, b);
+
+const heading = (doc: jsPDF, text: string) => {
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  setColor(doc, TEXT);
+  doc.text(text, MARGIN, MARGIN + 6);
+};
+
+// Cut to the width of a table cell or a card, with an ellipsis
+const fitText = (doc: jsPDF, text: string, width: number): string => {
+  if (doc.getTextWidth(text) <= width) return text;
+  let fitted = text;
+  while (fitted.length > 0 && doc.getTextWidth(`${fitted}…`) > width) fitted = fitted.slice(0, -1);
+  return `${fitted}…`;
+};
+
+const titlePage = (doc: jsPDF, context: ExportContext, name: string, generatedAt: Date) => {
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(30);
+  setColor(doc, TEXT);
+  doc.text("Rapport Freedom Analytics", PAGE_WIDTH / 2, 80, { align: "center" });
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(16);
+  doc.text(name, PAGE_WIDTH / 2, 95, { align: "center" });
+  doc.setFontSize(11);
+  setColor(doc, MUTED);
+  doc.text(
+    [
+      `${context.records.length} lignes correspondent aux filtres appliqués`,
+      `Généré le ${generatedAt.toLocaleString("fr-FR")}`,
+    ],
+    PAGE_WIDTH / 2,
+    112,
+    { align: "center", lineHeightFactor: 1.6 }
+  );
+};
+
+interface KpiCard {
+  title: string;
+  value: string;
+  caption: string;
+  color: Rgb;
+}
+
+const kpiCards = ({ records, schema, metrics, taxonomy }: ExportContext): KpiCard[] => {
+  const stats = computeStats(records, schema, metrics, taxonomy);
+  if (!stats) return [];
+  const { primary, breakdownMetric, headlineMetric, highlighted } = stats;
+
+  const cards: KpiCard[] = [
+    {
+      title: `Total des ${schema.entity.plural}`,
+      value: String(stats.totalEntities),
+      caption: `${stats.uniqueGroups} ${schema.group.plural} • ${stats.uniqueTimes} ${schema.time.plural}`,
+      color: TEXT,
+    },
+  ];
+  if (breakdownMetric && highlighted) {
+    cards.push({
+      title: `${breakdownMetric.name} : ${highlighted.category}`,
+      value: String(highlighted.count),
+      caption: `${highlighted.percentage} % des ${schema.entity.plural}`,
+      color: TONE_COLORS[highlighted.tone],
+    });
+  }
+  if (headlineMetric) {
+    cards.push({
+      title: headlineMetric.name,
+      value: formatAverage(stats.avgHeadline),
+      caption: `/ ${headlineMetric.max}${headlineMetric.polarity === "lower" ? " • plus bas = mieux" : ""}`,
+      color: TEXT,
+    });
+  }
+  if (primary) {
+    cards.push({
+      title: "Tendance",
+      value: formatAverage(stats.avgPrimary),
+      caption: `${primary.name} (${primary.label}) • ${TREND_LABELS[stats.trend]}`,
+      color: stats.trend === "improving" ? TONE_COLORS.positive : stats.trend === "declining" ? TONE_COLORS.negative : MUTED,
+    });
+  }
+  // The detailed breakdown, one card per category
+  stats.categories.forEach(({ category, count, tone, percentage }) => {
+    cards.push({ title: category, value: String(count), caption: `${percentage} %`, color: TONE_COLORS[tone] });
+  });
+  return cards;
+};
+
+const KPI_COLUMNS = 4;
+const KPI_GAP = 6;
+const KPI_HEIGHT = 32;
+
+const kpiPage = (doc: jsPDF, cards: KpiCard[]) => {
+  heading(doc, "Indicateurs clés");
+  const width = (CONTENT_WIDTH - (KPI_COLUMNS - 1) * KPI_GAP) / KPI_COLUMNS;
+
+  cards.forEach((card, index) => {
+    const x = MARGIN + (index % KPI_COLUMNS) * (width + KPI_GAP);
+    const y = MARGIN + 16 + Math.floor(index / KPI_COLUMNS) * (KPI_HEIGHT + KPI_GAP);
+    doc.setDrawColor(...BORDER);
+    doc.roundedRect(x, y, width, KPI_HEIGHT, 2, 2, "S");
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    setColor(doc, MUTED);
+    doc.text(fitText(doc, card.title, width - 8), x + 4, y + 7);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(20);
+    setColor(doc, card.color);
+    doc.text(card.value, x + 4, y + 19);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    setColor(doc, MUTED);
+    doc.text(fitText(doc, card.caption, width - 8), x + 4, y + 27);
+  });
+};
+
+// Two charts per page, each scaled to its half without distortion
+const CHART_SLOT_HEIGHT = (PAGE_HEIGHT - 2 * MARGIN) / 2;
+
+const drawChart = async (doc: jsPDF, chart: RenderedChart, top: number) => {
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  setColor(doc, TEXT);
+  doc.text(chart.title, MARGIN, top + 5);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  setColor(doc, MUTED);
+  doc.text(fitText(doc, chart.description, CONTENT_WIDTH), MARGIN, top + 10);
+
+  const legendHeight = chart.legend.length > 0 ? 6 : 0;
+  const available = CHART_SLOT_HEIGHT - 14 - legendHeight;
+  const svg = inlineSvgStyles(chart.svg);
+  const { width, height } = chart.svg.getBoundingClientRect();
+  const scale = Math.min(CONTENT_WIDTH / width, available / height);
+  const x = MARGIN + (CONTENT_WIDTH - width * scale) / 2;
+  await svg2pdf(svg, doc, { x, y: top + 13, width: width * scale, height: height * scale });
+
+  let legendX = MARGIN;
+  chart.legend.forEach(({ label, color }) => {
+    const legendY = top + 13 + height * scale + 3;
+    doc.setFillColor(...rgbComponents(color));
+    doc.rect(legendX, legendY - 2.5, 3, 3, "F");
+    doc.setFontSize(8);
+    setColor(doc, TEXT);
+    doc.text(label, legendX + 4.5, legendY);
+    legendX += 4.5 + doc.getTextWidth(label) + 6;
+  });
+};
+
+const filtersPage = (doc: jsPDF, context: ExportContext) => {
+  heading(doc, "Filtres appliqués");
+  const rows: [string, string][] = [
+    ...context.filters,
+    ["Tri", describeSort(context, TABLE_OPTIONS)],
+    ["Lignes retenues", String(context.records.length)],
+  ];
+  let y = MARGIN + 18;
+  rows.forEach(([label, value]) => {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    setColor(doc, TEXT);
+    doc.text(label, MARGIN, y);
+    doc.setFont("helvetica", "normal");
+    const lines: string[] = doc.splitTextToSize(value, CONTENT_WIDTH - 60);
+    doc.text(lines, MARGIN + 60, y);
+    y += Math.max(lines.length, 1) * 5 + 3;
+  });
+};
+
+const ROW_HEIGHT = 6;
+const TABLE_TOP = MARGIN + 14;
+const ROWS_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN - 8 - TABLE_TOP) / ROW_HEIGHT) - 1;
+
+// Without digit grouping: years must read "2020", and the narrow space of French grouping is not in Helvetica
+const formatCell = (cell: string | number): string => {
+  if (typeof cell !== "number") return cell;
+  return Number.isInteger(cell) ? String(cell) : cell.toFixed(2).replace(".", ",");
+};
+
+const tableRow = (doc: jsPDF, cells: (string | number)[], y: number, columnWidth: number) => {
+  cells.forEach((cell, index) => {
+    doc.text(fitText(doc, formatCell(cell), columnWidth - 2), MARGIN + index * columnWidth + 1, y);
+  });
+};
+
+// The header is repeated on every page of the appendix
+const appendix = (doc: jsPDF, context: ExportContext) => {
+  const [header, ...rows] = exportTable(context, TABLE_OPTIONS);
+  const columnWidth = CONTENT_WIDTH / header.length;
+  const pages = Math.max(Math.ceil(rows.length / ROWS_PER_PAGE), 1);
+
+  for (let page = 0; page < pages; page++) {
+    doc.addPage();
+    heading(doc, pages > 1 ? `Annexe : données (${page + 1}/${pages})` : "Annexe : données");
+    doc.setFontSize(7);
+    doc.setFont("helvetica", "bold");
+    setColor(doc, TEXT);
+    tableRow(doc, header, TABLE_TOP + 4, columnWidth);
+    doc.setDrawColor(...BORDER);
+    doc.line(MARGIN, TABLE_TOP + ROW_HEIGHT, PAGE_WIDTH - MARGIN, TABLE_TOP + ROW_HEIGHT);
+    doc.setFont("helvetica", "normal");
+    rows.slice(page * ROWS_PER_PAGE, (page + 1) * ROWS_PER_PAGE).forEach((row, index) => {
+      tableRow(doc, row, TABLE_TOP + (index + 1) * ROW_HEIGHT + 4, columnWidth);
+    });
+  }
+};
+
+const pageNumbers = (doc: jsPDF) => {
+  const count = doc.getNumberOfPages();
+  for (let page = 2; page <= count; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    setColor(doc, MUTED);
+    doc.text(`${page} / ${count}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 8, { align: "right" });
+  }
+};
+
+// Charts are rendered by the dashboard components and collected with collectCharts
+export const generateReport = async (context: ExportContext, charts: RenderedChart[], name: string) => {
+  const generatedAt = new Date();
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
+
+  titlePage(doc, context, name, generatedAt);
+
+  const cards = kpiCards(context);
+  if (cards.length > 0) {
+    doc.addPage();
+    kpiPage(doc, cards);
+  }
+
+  for (let index = 0; index < charts.length; index++) {
+    if (index % 2 === 0) doc.addPage();
+    await drawChart(doc, charts[index], MARGIN + (index % 2) * CHART_SLOT_HEIGHT);
+  }
+
+  doc.addPage();
+  filtersPage(doc, context);
+  appendix(doc, context);
+  pageNumbers(doc);
+
+  doc.save(exportFileName(name, "pdf", generatedAt));
+};
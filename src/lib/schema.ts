@@ -0,0 +1,269 @@
+import type { FreedomData } from "@/components/Dashboard";
+import {
+  EXTRA_FIELD_PREFIX,
+  METRIC_LABELS,
+  METRIC_SCALES,
+  MetricScale,
+  Polarity,
+  PolaritySelection,
+  ScaleSelection,
+  ScaleKind,
+  ScoreMetric,
+  metricScale,
+  metricValue,
+  recordField,
+  scoreMetricOf,
+} from "./metrics";
+import { ColumnType, MAX_CATEGORIES, isNumericType, parseTyped, profileColumn, typedLabel } from "./columnTypes";
+import { DimensionField, isUsualHeader } from "./mapping";
+import { STATUS_LABELS } from "./status";
+
+// Entity, group and time dimensions every dataset is organised along
+export interface DimensionDefinition {
+  field: string;
+  label: string;
+  plural: string;
+}
+
+interface MetricBase {
+  field: string;
+  name: string;
+  hidden?: boolean;
+}
+
+// label is the scale (e.g. "Note 1–7"), name the indicator itself
+export interface NumericMetric extends MetricScale, MetricBase {
+  kind: "numeric";
+  type: "integer" | "decimal" | "percentage";
+}
+
+// How a category reads: it drives badge and tile colours
+export type CategoryTone = "positive" | "neutral" | "negative";
+
+export interface CategoricalMetric extends MetricBase {
+  kind: "categorical";
+  type: "categorical" | "boolean";
+  categories: string[];
+  tones?: Record<string, CategoryTone>;
+}
+
+export interface DateMetric extends MetricBase {
+  kind: "date";
+  type: "date";
+}
+
+export interface TextMetric extends MetricBase {
+  kind: "text";
+  type: "text";
+}
+
+export type MetricDefinition = NumericMetric | CategoricalMetric | DateMetric | TextMetric;
+
+export interface DatasetSchema {
+  entity: DimensionDefinition;
+  group: DimensionDefinition;
+  time: DimensionDefinition;
+  metrics: MetricDefinition[];
+  // Numeric metric behind rankings and the overall trend
+  primary?: string;
+}
+
+const STATUS_METRIC: CategoricalMetric = {
+  kind: "categorical",
+  type: "categorical",
+  field: "status",
+  name: "Statut",
+  categories: STATUS_LABELS,
+  tones: { Libre: "positive", "Partiellement libre": "neutral", "Pas libre": "negative" },
+};
+
+// Ratings are whole numbers, scores may carry decimals
+const SCORE_METRICS: NumericMetric[] = (Object.keys(METRIC_SCALES) as ScoreMetric[]).flatMap((metric) =>
+  (Object.entries(METRIC_SCALES[metric]) as [ScaleKind, MetricScale][]).map(([kind, scale]) => ({
+    ...scale,
+    kind: "numeric" as const,
+    type: kind === "rating" ? ("integer" as const) : ("decimal" as const),
+    name: METRIC_LABELS[metric],
+  }))
+);
+
+export const FREEDOM_HOUSE_SCHEMA: DatasetSchema = {
+  entity: { field: "country", label: "Pays", plural: "pays" },
+  group: { field: "region", label: "Région", plural: "régions" },
+  time: { field: "year", label: "Année", plural: "années" },
+  metrics: [STATUS_METRIC, ...SCORE_METRICS],
+  primary: "totalScore",
+};
+
+// Wide workbooks, like the Freedom House subscores sheet, would drown the dashboard: their extra columns start hidden
+const MAX_VISIBLE_EXTRAS = 6;
+
+const extraHeader = (field: string): string => field.slice(EXTRA_FIELD_PREFIX.length);
+
+// Cells of an unmapped column as they were in the file, whatever type they were converted to since
+const rawExtraValue = (record: FreedomData, header: string): unknown => record.source?.raw[header] ?? record.extra?.[header];
+
+// Definition of a column read as the given type: range of numbers, list of categories...
+export const metricForType = (field: string, name: string, type: ColumnType, values: unknown[]): MetricDefinition => {
+  const typed = values.map((value) => parseTyped(value, type)).filter((value) => value !== undefined);
+
+  if (type === "integer" || type === "decimal" || type === "percentage") {
+    const numbers = typed as number[];
+    const min = numbers.length > 0 ? numbers.reduce((lowest, value) => Math.min(lowest, value), Infinity) : 0;
+    const max = numbers.length > 0 ? numbers.reduce((highest, value) => Math.max(highest, value), -Infinity) : 0;
+    const unit = type === "percentage" ? " %" : "";
+    return { kind: "numeric", type, field, name, label: `${min}–${max}${unit}`, min, max, polarity: "higher" };
+  }
+  if (type === "categorical" || type === "boolean") {
+    const categories = type === "boolean" ? ["Oui", "Non"] : [...new Set(typed.map(typedLabel))].sort((a, b) => a.localeCompare(b, "fr"));
+    // A free text column turned categorical by hand keeps a list short enough for a filter
+    return { kind: "categorical", type, field, name, categories: categories.slice(0, MAX_CATEGORIES * 4) };
+  }
+  return type === "date" ? { kind: "date", type, field, name } : { kind: "text", type, field, name };
+};
+
+// Dimensions filtered like columns, next to the metrics: the time one as a range of whole numbers.
+// The group has its own select, which follows the region classification.
+export const dimensionMetrics = (schema: DatasetSchema, records: FreedomData[]): MetricDefinition[] => [
+  metricForType(schema.time.field, schema.time.label, "integer", records.map((record) => recordField(record, schema.time.field))),
+];
+
+// A group of regions can be read through a classification of countries; one named after another column is taken as read
+export const isRegionGroup = (schema: DatasetSchema): boolean => schema.group.label === FREEDOM_HOUSE_SCHEMA.group.label;
+
+// Header most rows read a dimension from, as files merged into one dataset may name it differently
+const dimensionHeader = (records: FreedomData[], field: DimensionField): string | undefined => {
+  const counts = new Map<string, number>();
+  records.forEach((record) => {
+    const header = record.source?.dimensionHeaders?.[field];
+    if (header) counts.set(header, (counts.get(header) ?? 0) + 1);
+  });
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+// Plural of a header by the usual French rule, on its first word: "Secteur d'activité" gives "secteurs d'activité".
+// Acronyms are left as they are.
+const pluralOf = (header: string): string => {
+  const [noun, ...rest] = header.trim().split(/\s+/);
+  const plural = noun === noun.toUpperCase() || /[sxz]$/i.test(noun) ? noun : `${noun}s`;
+  return [noun === noun.toUpperCase() ? plural : plural.toLocaleLowerCase("fr"), ...rest].join(" ");
+};
+
+// A dimension is named after the column it was mapped from, the Freedom House name standing for the usual headers
+const inferDimension = (records: FreedomData[], dimension: DimensionDefinition): DimensionDefinition => {
+  const header = dimensionHeader(records, dimension.field as DimensionField)?.trim();
+  if (!header || isUsualHeader(dimension.field as DimensionField, header)) return dimension;
+  return { field: dimension.field, label: header, plural: pluralOf(header) };
+};
+
+// Dimensions named after the mapped columns, the Freedom House metrics present in the records,
+// plus one metric per unmapped numeric or categorical column
+export const inferSchema = (records: FreedomData[]): DatasetSchema => {
+  const hasStatus = records.some((record) => STATUS_LABELS.includes(record.status));
+
+  // Rating and score of a metric are kept as a pair, so that the scale switch always has both
+  const scoreMetrics = (Object.keys(METRIC_SCALES) as ScoreMetric[]).flatMap((metric) => {
+    const pair = SCORE_METRICS.filter((candidate) => scoreMetricOf(candidate.field) === metric);
+    return pair.some((candidate) => records.some((record) => metricValue(record, candidate) !== null)) ? pair : [];
+  });
+
+  const headers = new Set<string>();
+  records.forEach((record) => Object.keys(record.extra ?? {}).forEach((header) => headers.add(header)));
+  const extras = [...headers].map((header) => {
+    const values = records.map((record) => rawExtraValue(record, header));
+    const metric = metricForType(`${EXTRA_FIELD_PREFIX}${header}`, header, profileColumn(values), values);
+    return headers.size > MAX_VISIBLE_EXTRAS ? { ...metric, hidden: true } : metric;
+  });
+
+  const metrics = [...(hasStatus ? [STATUS_METRIC] : []), ...scoreMetrics, ...extras];
+  return {
+    entity: inferDimension(records, FREEDOM_HOUSE_SCHEMA.entity),
+    group: inferDimension(records, FREEDOM_HOUSE_SCHEMA.group),
+    time: inferDimension(records, FREEDOM_HOUSE_SCHEMA.time),
+    metrics,
+    primary: scoreMetrics.length > 0 ? "totalScore" : metrics.find((metric) => metric.kind === "numeric")?.field,
+  };
+};
+
+// Metrics to display: visible ones, with each Freedom House score in its selected scale and polarity
+export const resolveMetrics = (
+  schema: DatasetSchema,
+  scales: ScaleSelection,
+  polarities: PolaritySelection
+): MetricDefinition[] =>
+  schema.metrics.flatMap((metric) => {
+    if (metric.hidden) return [];
+    const scoreMetric = metric.kind === "numeric" ? scoreMetricOf(metric.field) : undefined;
+    if (metric.kind !== "numeric" || !scoreMetric) return [metric];
+    const scale = metricScale(scoreMetric, scales, polarities);
+    return scale.field === metric.field ? [{ ...metric, ...scale }] : [];
+  });
+
+export const numericMetrics = (metrics: MetricDefinition[]): NumericMetric[] =>
+  metrics.filter((metric): metric is NumericMetric => metric.kind === "numeric");
+
+export const categoricalMetrics = (metrics: MetricDefinition[]): CategoricalMetric[] =>
+  metrics.filter((metric): metric is CategoricalMetric => metric.kind === "categorical");
+
+// The primary metric as displayed, which for a Freedom House score may be its other scale
+export const primaryMetric = (schema: DatasetSchema, metrics: MetricDefinition[]): NumericMetric | undefined => {
+  if (!schema.primary) return undefined;
+  const family = scoreMetricOf(schema.primary);
+  return numericMetrics(metrics).find(
+    (metric) => metric.field === schema.primary || (family !== undefined && scoreMetricOf(metric.field) === family)
+  );
+};
+
+export const hasScoreMetrics = (schema: DatasetSchema): boolean =>
+  schema.metrics.some((metric) => scoreMetricOf(metric.field) !== undefined);
+
+// Converts the unmapped cells of every record to the type of their column
+export const applyColumnTypes = (records: FreedomData[], schema: DatasetSchema): FreedomData[] => {
+  const extras = schema.metrics.filter((metric) => metric.field.startsWith(EXTRA_FIELD_PREFIX));
+  if (extras.length === 0) return records;
+  return records.map((record) => {
+    const extra: Record<string, unknown> = {};
+    extras.forEach((metric) => {
+      const header = extraHeader(metric.field);
+      const value = parseTyped(rawExtraValue(record, header), metric.type);
+      if (value !== undefined) extra[header] = value;
+    });
+    return { ...record, extra };
+  });
+};
+
+// Only unmapped columns can change type; Freedom House fields keep theirs
+export const isRetypable = (metric: MetricDefinition): boolean => metric.field.startsWith(EXTRA_FIELD_PREFIX);
+
+export const retypeMetric = (
+  schema: DatasetSchema,
+  field: string,
+  type: ColumnType,
+  records: FreedomData[]
+): DatasetSchema => {
+  const metrics = schema.metrics.map((metric) => {
+    if (metric.field !== field || !isRetypable(metric)) return metric;
+    const header = extraHeader(field);
+    const retyped = metricForType(field, header, type, records.map((record) => rawExtraValue(record, header)));
+    const polarity = metric.kind === "numeric" && retyped.kind === "numeric" ? metric.polarity : undefined;
+    return { ...retyped, hidden: metric.hidden, ...(polarity ? { polarity } : {}) } as MetricDefinition;
+  });
+  // A primary metric that is no longer numeric hands over to the first numeric one
+  const primary = metrics.some((metric) => metric.field === schema.primary && isNumericType(metric.type))
+    ? schema.primary
+    : metrics.find((metric) => metric.kind === "numeric")?.field;
+  return { ...schema, metrics, primary };
+};
+
+export const updateMetric = (
+  schema: DatasetSchema,
+  field: string,
+  changes: { hidden?: boolean; polarity?: Polarity }
+): DatasetSchema => ({
+  ...schema,
+  metrics: schema.metrics.map((metric): MetricDefinition => {
+    if (metric.field !== field) return metric;
+    const hidden = changes.hidden ?? metric.hidden;
+    return metric.kind === "numeric" ? { ...metric, hidden, polarity: changes.polarity ?? metric.polarity } : { ...metric, hidden };
+  }),
+});
@@ -0,0 +1,83 @@
+import { ExportContext, downloadBlob, exportFileName } from "./export";
+import { DashboardView } from "./viewState";
+
+// The filtered view as exported, opened read-only by SnapshotDashboard
+export interface Snapshot {
+  name: string;
+  exportedAt: string;
+  context: ExportContext;
+  view: DashboardView;
+}
+
+const SNAPSHOT_ELEMENT_ID = "viz-my-xls-snapshot";
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotError";
+  }
+}
+
+// Embedded by exportSnapshot: the app starts on the snapshot instead of the dashboard when it finds one
+export const readSnapshot = (): Snapshot | undefined => {
+  const element = document.getElementById(SNAPSHOT_ELEMENT_ID);
+  if (!element?.textContent) return undefined;
+  try {
+    return JSON.parse(element.textContent) as Snapshot;
+  } catch {
+    return undefined;
+  }
+};
+
+// "<" is escaped so that neither the data nor the code can close the element they sit in
+const escapeJson = (json: string) => json.replace(/</g, "\\u003c");
+const escapeScript = (code: string) => code.replace(/<\/script/gi, "<\\/script");
+const escapeHtml = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const fetchText = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new SnapshotError(`Ressource introuvable : ${url}`);
+  return response.text();
+};
+
+// The built bundle and stylesheets of the running app, inlined so that the file opens from disk
+const appAssets = async () => {
+  const scripts = [...document.querySelectorAll<HTMLScriptElement>("script[type=module][src]")].map((script) => script.src);
+  const styles = [...document.querySelectorAll<HTMLLinkElement>("link[rel=stylesheet][href]")].map((link) => link.href);
+  return {
+    scripts: await Promise.all(scripts.map(fetchText)),
+    styles: await Promise.all(styles.map(fetchText)),
+  };
+};
+
+export const snapshotHtml = (snapshot: Snapshot, scripts: string[], styles: string[]): string =>
+  [
+    "<!DOCTYPE html>",
+    '<html lang="fr">',
+    "<head>",
+    '<meta charset="UTF-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+    `<title>${escapeHtml(snapshot.name)}</title>`,
+    ...styles.map((style) => `<style>${style}</style>`),
+    "</head>",
+    "<body>",
+    '<div id="root"></div>',
+    `<script type="application/json" id="${SNAPSHOT_ELEMENT_ID}">${escapeJson(JSON.stringify(snapshot))}</script>`,
+    ...scripts.map((script) => `<script type="module">${escapeScript(script)}</script>`),
+    "</body>",
+    "</html>",
+  ].join("\n");
+
+export const exportSnapshot = async (context: ExportContext, view: DashboardView, name: string) => {
+  // The development server serves modules one by one, which cannot be inlined
+  if (import.meta.env.DEV) {
+    throw new SnapshotError("L'instantané HTML n'est disponible que dans la version compilée de l'application.");
+  }
+  const exportedAt = new Date();
+  const { scripts, styles } = await appAssets();
+  const snapshot: Snapshot = { name, exportedAt: exportedAt.toISOString(), context, view };
+  downloadBlob(
+    new Blob([snapshotHtml(snapshot, scripts, styles)], { type: "text/html;charset=utf-8" }),
+    exportFileName(name, "html", exportedAt)
+  );
+};
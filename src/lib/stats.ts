@@ -0,0 +1,101 @@
+import type { FreedomData } from "@/components/Dashboard";
+import { typedLabel } from "./columnTypes";
+import { Trend, averageMetric, classifyTrend, recordField } from "./metrics";
+import { RegionTaxonomy, recordRegion } from "./regions";
+import {
+  CategoricalMetric,
+  CategoryTone,
+  DatasetSchema,
+  MetricDefinition,
+  NumericMetric,
+  categoricalMetrics,
+  numericMetrics,
+  primaryMetric,
+} from "./schema";
+
+export const TREND_LABELS: Record<Trend, string> = {
+  improving: "En amélioration",
+  declining: "En déclin",
+  stable: "Stable",
+};
+
+export interface CategoryCount {
+  category: string;
+  count: number;
+  tone: CategoryTone | "none";
+  percentage: string;
+}
+
+// Figures of the KPI cards, shared by the dashboard and the PDF report
+export interface DashboardStats {
+  primary?: NumericMetric;
+  // The first categorical metric is broken down, the first other numeric one averaged
+  breakdownMetric?: CategoricalMetric;
+  headlineMetric?: NumericMetric;
+  totalEntities: number;
+  categories: CategoryCount[];
+  // Headline category: the first one reading positively, as "Libre" for the freedom status
+  highlighted?: CategoryCount;
+  avgHeadline: number | null;
+  avgPrimary: number | null;
+  uniqueGroups: number;
+  uniqueTimes: number;
+  trend: Trend;
+}
+
+export const formatAverage = (value: number | null) => (value === null ? "–" : value.toFixed(1));
+
+export const computeStats = (
+  data: FreedomData[],
+  schema: DatasetSchema,
+  metrics: MetricDefinition[],
+  taxonomy: RegionTaxonomy
+): DashboardStats | null => {
+  if (data.length === 0) return null;
+
+  const primary = primaryMetric(schema, metrics);
+  const breakdownMetric = categoricalMetrics(metrics)[0];
+  const headlineMetric = numericMetrics(metrics).find((metric) => metric !== primary) ?? primary;
+  const totalEntities = data.length;
+
+  const categories = (breakdownMetric?.categories ?? []).map((category): CategoryCount => {
+    const count = data.filter(d => typedLabel(recordField(d, breakdownMetric.field)) === category).length;
+    return {
+      category,
+      count,
+      tone: breakdownMetric.tones?.[category] ?? "none",
+      percentage: ((count / totalEntities) * 100).toFixed(1)
+    };
+  });
+
+  const times = [...new Set(data.map(d => recordField(d, schema.time.field)))].sort((a, b) => Number(a) - Number(b));
+
+  // Calculate trends if we have multiple periods, on the primary metric in its selected scale
+  let trend: Trend = "stable";
+
+  if (primary && times.length > 1) {
+    const firstAvg = averageMetric(data.filter(d => recordField(d, schema.time.field) === times[0]), primary);
+    const lastAvg = averageMetric(data.filter(d => recordField(d, schema.time.field) === times[times.length - 1]), primary);
+    // Half a point on the 2–14 sum of ratings, the same share of any other scale
+    const margin = (primary.max - primary.min) / 24;
+
+    // Whether a rise is an improvement depends on the polarity of the scale
+    if (firstAvg !== null && lastAvg !== null) {
+      trend = classifyTrend(firstAvg, lastAvg, primary, margin);
+    }
+  }
+
+  return {
+    primary,
+    breakdownMetric,
+    headlineMetric,
+    totalEntities,
+    categories,
+    highlighted: categories.find(({ tone }) => tone === "positive") ?? categories[0],
+    avgHeadline: headlineMetric ? averageMetric(data, headlineMetric) : null,
+    avgPrimary: primary ? averageMetric(data, primary) : null,
+    uniqueGroups: new Set(data.map(d => recordRegion(d, taxonomy))).size,
+    uniqueTimes: times.length,
+    trend
+  };
+};
@@ -0,0 +1,29 @@
+import type { FreedomData } from "@/components/Dashboard";
+import { normalizeText } from "./utils";
+
+export type FreedomStatus = FreedomData["status"];
+
+export const STATUS_LABELS: FreedomStatus[] = ["Libre", "Partiellement libre", "Pas libre"];
+
+export const UNSPECIFIED_STATUS = "Non spécifié";
+
+// Spellings found in French and English sources, compared in normalized form
+const STATUS_ALIASES: Record<string, FreedomStatus> = {
+  "libre": "Libre",
+  "free": "Libre",
+  "partiellement libre": "Partiellement libre",
+  "partly free": "Partiellement libre",
+  "partially free": "Partiellement libre",
+  "pas libre": "Pas libre",
+  "non libre": "Pas libre",
+  "not free": "Pas libre",
+  // Codes used by the Freedom House "All Data" workbook
+  "f": "Libre",
+  "pf": "Partiellement libre",
+  "nf": "Pas libre",
+};
+
+export const normalizeStatus = (value: unknown): FreedomStatus | null => {
+  if (value === null || value === undefined) return null;
+  return STATUS_ALIASES[normalizeText(String(value))] ?? null;
+};
@@ -0,0 +1,102 @@
+import type { FreedomData } from "@/components/Dashboard";
+import { FreedomStatus, STATUS_LABELS } from "./status";
+import { RATING_MAX, RATING_MIN } from "./validation";
+
+// "ratings" averages political rights and civil liberties, "totalScore" adds them up (2–14),
+// "aggregateScore" reads the 0–100 aggregate score, on which higher values are freer
+export type StatusBasis = "ratings" | "totalScore" | "aggregateScore";
+
+// Which rows get the computed status: only those without a usable one, or every row
+export type StatusScope = "missing" | "all";
+
+export interface StatusRules {
+  basis: StatusBasis;
+  // Lower values are freer: up to freeMax is free, from notFreeMin on is not free, partly free in between.
+  // On a basis where higher values are freer, from freeMax on is free and up to notFreeMin is not free.
+  freeMax: number;
+  notFreeMin: number;
+  scope: StatusScope;
+}
+
+// Cut-offs published by Freedom House for the average of the two 1–7 ratings
+export const FREEDOM_HOUSE_RULES: StatusRules = {
+  basis: "ratings",
+  freeMax: 2.5,
+  notFreeMin: 5.5,
+  scope: "missing",
+};
+
+// Thresholds a basis starts from when picked. Freedom House derives the status from the ratings:
+// on their sum the cut-offs are doubled, on the aggregate score they are approximate
+export const BASIS_THRESHOLDS: Record<StatusBasis, Pick<StatusRules, "freeMax" | "notFreeMin">> = {
+  ratings: { freeMax: 2.5, notFreeMin: 5.5 },
+  totalScore: { freeMax: 5, notFreeMin: 11 },
+  aggregateScore: { freeMax: 70, notFreeMin: 35 },
+};
+
+export const isHigherFreer = (basis: StatusBasis): boolean => basis === "aggregateScore";
+
+const STORAGE_KEY = "viz-my-xls.status-rules";
+
+export const loadStatusRules = (): StatusRules => {
+  try {
+    return { ...FREEDOM_HOUSE_RULES, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}") };
+  } catch {
+    return FREEDOM_HOUSE_RULES;
+  }
+};
+
+export const saveStatusRules = (rules: StatusRules) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const areStatusRulesValid = ({ basis, freeMax, notFreeMin }: StatusRules): boolean =>
+  Number.isFinite(freeMax) && Number.isFinite(notFreeMin) && (isHigherFreer(basis) ? freeMax > notFreeMin : freeMax < notFreeMin);
+
+const isRating = (value: number): boolean => value >= RATING_MIN && value <= RATING_MAX;
+
+const isKnownStatus = (status: unknown): status is FreedomStatus => STATUS_LABELS.includes(status as FreedomStatus);
+
+// Value the thresholds apply to, or null when the row lacks the scores it needs
+const statusBasisValue = (record: FreedomData, basis: StatusBasis): number | null => {
+  if (basis === "aggregateScore") return Number.isFinite(record.aggregateScore) ? record.aggregateScore : null;
+  // A missing rating is read as 0: a sum or an average of the other one alone means nothing
+  if (!isRating(record.politicalRights) || !isRating(record.civilLiberties)) return null;
+  const total = record.politicalRights + record.civilLiberties;
+  return basis === "totalScore" ? total : total / 2;
+};
+
+export const computeStatus = (record: FreedomData, rules: StatusRules): FreedomStatus | null => {
+  const value = statusBasisValue(record, rules.basis);
+  if (value === null) return null;
+  if (isHigherFreer(rules.basis)) {
+    if (value >= rules.freeMax) return "Libre";
+    if (value <= rules.notFreeMin) return "Pas libre";
+    return "Partiellement libre";
+  }
+  if (value <= rules.freeMax) return "Libre";
+  if (value >= rules.notFreeMin) return "Pas libre";
+  return "Partiellement libre";
+};
+
+// The status read from the file is kept in providedStatus, so rules can be changed and re-applied at will
+export const applyStatusRules = (records: FreedomData[], rules: StatusRules): FreedomData[] =>
+  records.map((record) => {
+    const providedStatus = record.providedStatus ?? record.status;
+    const computedStatus = computeStatus(record, rules);
+    const useComputed = computedStatus !== null && (rules.scope === "all" || !isKnownStatus(providedStatus));
+
+    return {
+      ...record,
+      status: (useComputed ? computedStatus : providedStatus) as FreedomStatus,
+      providedStatus,
+      computedStatus: computedStatus ?? undefined,
+      statusDerived: useComputed && computedStatus !== providedStatus,
+    };
+  });
+
+// A status given by the source that the scores do not support
+export const hasStatusContradiction = (record: FreedomData): boolean =>
+  isKnownStatus(record.providedStatus) &&
+  record.computedStatus !== undefined &&
+  record.computedStatus !== record.providedStatus;
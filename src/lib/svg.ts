@@ -0,0 +1,189 @@
+// Chart colours come from CSS variables ("hsl(var(--chart-1))") and stylesheet classes, which neither
+// PDF converters nor standalone SVG files can resolve: the computed values are written onto a copy
+const INLINED_PROPERTIES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-dasharray",
+  "stroke-opacity",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+];
+
+export const inlineSvgStyles = (svg: SVGSVGElement): SVGSVGElement => {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  const originals = [svg, ...svg.querySelectorAll("*")];
+  const copies = [copy, ...copy.querySelectorAll("*")];
+
+  originals.forEach((original, index) => {
+    const style = getComputedStyle(original);
+    const target = copies[index];
+    INLINED_PROPERTIES.forEach((property) => {
+      const value = style.getPropertyValue(property);
+      if (value) target.setAttribute(property, value);
+    });
+    target.removeAttribute("class");
+    target.removeAttribute("style");
+  });
+
+  const { width, height } = svg.getBoundingClientRect();
+  copy.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  copy.setAttribute("width", String(width));
+  copy.setAttribute("height", String(height));
+  copy.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  return copy;
+};
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+// A chart card of the dashboard, marked with data-chart-card
+export interface RenderedChart {
+  title: string;
+  description: string;
+  svg: SVGSVGElement;
+  // Recharts draws legends in HTML, outside of the SVG surface
+  legend: LegendEntry[];
+}
+
+const legendEntries = (card: Element): LegendEntry[] =>
+  [...card.querySelectorAll(".recharts-legend-item")].map((item) => {
+    const icon = item.querySelector("svg path");
+    const style = icon ? getComputedStyle(icon) : undefined;
+    const color = style && style.fill !== "none" ? style.fill : style?.stroke ?? "rgb(0, 0, 0)";
+    return { label: item.querySelector(".recharts-legend-item-text")?.textContent ?? "", color };
+  });
+
+export const readChart = (card: Element): RenderedChart | undefined => {
+  // The main surface only: legend icons are SVG elements too
+  const svg = card.querySelector<SVGSVGElement>(".recharts-wrapper > svg");
+  if (!svg) return undefined;
+  return {
+    title: card.querySelector("h3")?.textContent ?? "",
+    description: card.querySelector("h3 + p")?.textContent ?? "",
+    svg,
+    legend: legendEntries(card),
+  };
+};
+
+export const collectCharts = (root: Element): RenderedChart[] =>
+  [...root.querySelectorAll("[data-chart-card]")].flatMap((card) => readChart(card) ?? []);
+
+// "rgb(12, 34, 56)" or "rgba(…)" as computed by the browser
+export const rgbComponents = (color: string): [number, number, number] => {
+  const [r = 0, g = 0, b = 0] = (color.match(/\d+(\.\d+)?/g) ?? []).map(Number);
+  return [r, g, b];
+};
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const IMAGE_PADDING = 24;
+const TEXT_COLOR = "rgb(51, 65, 85)";
+const MUTED_COLOR = "rgb(100, 116, 139)";
+// SVG text does not wrap: lines are cut on an estimate of the character width
+const CHARACTER_WIDTH = 0.55;
+
+const svgElement = <K extends keyof SVGElementTagNameMap>(
+  name: K,
+  attributes: Record<string, string | number>,
+  text?: string
+): SVGElementTagNameMap[K] => {
+  const element = document.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([attribute, value]) => element.setAttribute(attribute, String(value)));
+  if (text !== undefined) element.textContent = text;
+  return element;
+};
+
+const wrapText = (text: string, width: number, fontSize: number): string[] => {
+  const perLine = Math.max(Math.floor(width / (fontSize * CHARACTER_WIDTH)), 1);
+  return text.split(" ").reduce<string[]>((lines, word) => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && `${last} ${word}`.length <= perLine) lines[lines.length - 1] = `${last} ${word}`;
+    else lines.push(word);
+    return lines;
+  }, []);
+};
+
+// A standalone image of a chart card: title, subtitle, chart, legend and the caption lines
+export const chartImage = (chart: RenderedChart, caption: string[]): SVGSVGElement => {
+  const surface = inlineSvgStyles(chart.svg);
+  const chartWidth = Number(surface.getAttribute("width"));
+  const chartHeight = Number(surface.getAttribute("height"));
+  const width = chartWidth + 2 * IMAGE_PADDING;
+  const fontFamily = getComputedStyle(document.body).fontFamily;
+  const image = svgElement("svg", { xmlns: SVG_NS, "font-family": fontFamily });
+  const content: SVGElement[] = [];
+  let y = IMAGE_PADDING;
+
+  const textLines = (text: string, fontSize: number, attributes: Record<string, string | number>) => {
+    wrapText(text, chartWidth, fontSize).forEach((line) => {
+      y += fontSize * 1.3;
+      content.push(svgElement("text", { x: IMAGE_PADDING, y, "font-size": fontSize, ...attributes }, line));
+    });
+  };
+
+  textLines(chart.title, 18, { "font-weight": 600, fill: TEXT_COLOR });
+  if (chart.description) textLines(chart.description, 12, { fill: MUTED_COLOR });
+  y += 12;
+
+  surface.setAttribute("x", String(IMAGE_PADDING));
+  surface.setAttribute("y", String(y));
+  content.push(surface);
+  y += chartHeight;
+
+  // Legend entries flow from left to right, on as many rows as needed
+  let x = IMAGE_PADDING;
+  if (chart.legend.length > 0) y += 20;
+  chart.legend.forEach(({ label, color }) => {
+    const entryWidth = 16 + label.length * 12 * CHARACTER_WIDTH + 16;
+    if (x > IMAGE_PADDING && x + entryWidth > width - IMAGE_PADDING) {
+      x = IMAGE_PADDING;
+      y += 18;
+    }
+    content.push(svgElement("rect", { x, y: y - 10, width: 10, height: 10, fill: color }));
+    content.push(svgElement("text", { x: x + 16, y, "font-size": 12, fill: TEXT_COLOR }, label));
+    x += entryWidth;
+  });
+
+  y += 8;
+  caption.forEach((line) => textLines(line, 11, { fill: MUTED_COLOR }));
+  y += IMAGE_PADDING;
+
+  image.setAttribute("width", String(width));
+  image.setAttribute("height", String(y));
+  image.setAttribute("viewBox", `0 0 ${width} ${y}`);
+  // PNG copies are opaque, as on the dashboard
+  image.append(svgElement("rect", { width, height: y, fill: "white" }), ...content);
+  return image;
+};
+
+export const serializeSvg = (svg: SVGSVGElement): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(svg)}`;
+
+// Drawn at three times the screen size, sharp enough for slides
+export const svgToPng = (svg: SVGSVGElement, scale = 3): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([serializeSvg(svg)], { type: "image/svg+xml;charset=utf-8" }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Number(svg.getAttribute("width")) * scale;
+      canvas.height = Number(svg.getAttribute("height")) * scale;
+      const context = canvas.getContext("2d");
+      context?.scale(scale, scale);
+      context?.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Image PNG vide"))), "image/png");
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Image SVG illisible"));
+    };
+    image.src = url;
+  });
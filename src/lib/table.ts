@@ -0,0 +1,72 @@
+import type { FreedomData } from "@/components/Dashboard";
+import { recordField } from "./metrics";
+import { RegionTaxonomy, recordRegion } from "./regions";
+
+// The detailed table shows either the normalized fields or the columns of the source files
+export type TableView = "normalized" | "source";
+
+export type SortDirection = "asc" | "desc";
+
+// Shared by the table and the exports, so that a file comes out in the order it is shown
+export interface TableSort {
+  view: TableView;
+  column: string | null;
+  direction: SortDirection;
+}
+
+export const DEFAULT_TABLE_SORT: TableSort = { view: "normalized", column: null, direction: "asc" };
+
+// Pseudo-columns of the source view, next to the raw spreadsheet columns
+export const SOURCE_SHEET = "__sheet";
+export const SOURCE_ROW = "__row";
+
+export const sourceValue = (row: FreedomData, column: string): unknown => {
+  if (!row.source) return undefined;
+  if (column === SOURCE_SHEET) {
+    return row.source.file && row.source.file !== row.source.sheet
+      ? `${row.source.file} › ${row.source.sheet}`
+      : row.source.sheet;
+  }
+  if (column === SOURCE_ROW) return row.source.row;
+  return row.source.raw[column];
+};
+
+// The region column follows the classification selected in the dashboard; other values are already typed,
+// so numbers sort as numbers and "YYYY-MM-DD" dates chronologically
+export const normalizedValue = (row: FreedomData, column: string, taxonomy: RegionTaxonomy): unknown =>
+  column === "region" ? recordRegion(row, taxonomy) : recordField(row, column);
+
+// Raw columns in the order they first appear across the loaded sources
+export const sourceColumns = (records: FreedomData[]): string[] => {
+  const columns = new Set<string>();
+  records.forEach((row) => Object.keys(row.source?.raw ?? {}).forEach((column) => columns.add(column)));
+  return [...columns];
+};
+
+export const sortRecords = (records: FreedomData[], sort: TableSort, taxonomy: RegionTaxonomy): FreedomData[] => {
+  const { view, column, direction } = sort;
+  if (!column) return records;
+
+  return [...records].sort((a, b) => {
+    const aValue = view === "source" ? sourceValue(a, column) : normalizedValue(a, column, taxonomy);
+    const bValue = view === "source" ? sourceValue(b, column) : normalizedValue(b, column, taxonomy);
+
+    // Rows without a value stay at the end whatever the direction
+    if (aValue === undefined || bValue === undefined) {
+      return aValue === bValue ? 0 : aValue === undefined ? 1 : -1;
+    }
+
+    if (typeof aValue === "number" && typeof bValue === "number") {
+      return direction === "asc" ? aValue - bValue : bValue - aValue;
+    }
+
+    const aString = String(aValue).toLowerCase();
+    const bString = String(bValue).toLowerCase();
+
+    if (direction === "asc") {
+      return aString < bString ? -1 : aString > bString ? 1 : 0;
+    } else {
+      return aString > bString ? -1 : aString < bString ? 1 : 0;
+    }
+  });
+};
@@ -0,0 +1,92 @@
+import type { SheetRow, SheetSummary } from "./workbook";
+
+export interface UnpivotOptions {
+  // Columns copied unchanged to every produced row, e.g. the country
+  idColumns: string[];
+  // Columns turned into rows, e.g. one column per year
+  valueColumns: string[];
+  // Name of the column receiving the former header, and of the one receiving the cell value
+  keyColumn: string;
+  valueColumn: string;
+}
+
+export const DEFAULT_KEY_COLUMN = "Année";
+export const DEFAULT_VALUE_COLUMN = "Valeur";
+
+const YEAR_HEADER = /^\s*((?:19|20)\d{2})\s*$/;
+
+// Headers that look like years are the usual sign of a wide time series
+export const suggestValueColumns = (headers: string[]): string[] => headers.filter((header) => YEAR_HEADER.test(header));
+
+export const suggestUnpivot = (headers: string[]): UnpivotOptions => {
+  const valueColumns = suggestValueColumns(headers);
+  return {
+    idColumns: headers.filter((header) => !valueColumns.includes(header)),
+    valueColumns,
+    keyColumn: DEFAULT_KEY_COLUMN,
+    valueColumn: DEFAULT_VALUE_COLUMN,
+  };
+};
+
+// Names are typed in the unpivot step: validation and conversion both read them trimmed
+export const trimColumnNames = (options: UnpivotOptions): UnpivotOptions => ({
+  ...options,
+  keyColumn: options.keyColumn.trim(),
+  valueColumn: options.valueColumn.trim(),
+});
+
+const headerKey = (header: string): string | number => {
+  const year = header.match(YEAR_HEADER);
+  return year ? Number(year[1]) : header;
+};
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+
+// One row per source row and non-empty value column; columns neither identifier nor value are dropped
+export const unpivotRows = (rows: SheetRow[], rowNumbers: number[], options: UnpivotOptions) => {
+  const { idColumns, valueColumns, keyColumn, valueColumn } = trimColumnNames(options);
+  const longRows: SheetRow[] = [];
+  const longRowNumbers: number[] = [];
+
+  rows.forEach((row, index) => {
+    valueColumns.forEach((column) => {
+      if (isBlank(row[column])) return;
+
+      const longRow: SheetRow = {};
+      idColumns.forEach((id) => {
+        if (row[id] !== undefined) longRow[id] = row[id];
+      });
+      longRow[keyColumn] = headerKey(column);
+      longRow[valueColumn] = row[column];
+      longRows.push(longRow);
+      longRowNumbers.push(rowNumbers[index]);
+    });
+  });
+
+  return { rows: longRows, rowNumbers: longRowNumbers };
+};
+
+export const unpivotSheet = (sheet: SheetSummary, unpivot: UnpivotOptions): SheetSummary => {
+  const options = trimColumnNames(unpivot);
+  const { rows, rowNumbers } = unpivotRows(sheet.rows, sheet.rowNumbers, options);
+  return {
+    ...sheet,
+    headers: [...options.idColumns, options.keyColumn, options.valueColumn],
+    rows,
+    rowNumbers,
+    description: `${options.valueColumns.length} colonnes converties en lignes`,
+  };
+};
+
+export const isUnpivotValid = (options: UnpivotOptions): boolean => {
+  const { idColumns, valueColumns, keyColumn, valueColumn } = trimColumnNames(options);
+  return (
+    valueColumns.length > 0 &&
+    keyColumn !== "" &&
+    valueColumn !== "" &&
+    keyColumn !== valueColumn &&
+    !idColumns.includes(keyColumn) &&
+    !idColumns.includes(valueColumn)
+  );
+};
@@ -0,0 +1,78 @@
+import { ColumnMapping, MappedField } from "./mapping";
+import { FIELD_RANGES } from "./metrics";
+import { normalizeStatus } from "./status";
+import { SheetRow } from "./workbook";
+
+export type IssueKind = "missing" | "notNumeric" | "outOfRange" | "unknownStatus";
+
+export interface ValidationIssue {
+  field: MappedField;
+  header: string;
+  kind: IssueKind;
+  value: unknown;
+}
+
+export interface RowValidation {
+  sheet: number;
+  index: number;
+  row: SheetRow;
+  issues: ValidationIssue[];
+}
+
+export const ISSUE_LABELS: Record<IssueKind, string> = {
+  missing: "Valeur manquante",
+  notNumeric: "Valeur non numérique",
+  outOfRange: "Hors de l'échelle attendue",
+  unknownStatus: "Statut inconnu",
+};
+
+export const RATING_MIN = 1;
+export const RATING_MAX = 7;
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || String(value).trim() === "";
+
+const isNumeric = (value: unknown): boolean =>
+  typeof value === "number" ? !isNaN(value) : /^\s*-?\d+([.,]\d+)?\s*$/.test(String(value));
+
+const toNumber = (value: unknown): number =>
+  typeof value === "number" ? value : parseFloat(String(value).replace(",", "."));
+
+const checkField = (field: MappedField, value: unknown): IssueKind | null => {
+  if (isBlank(value)) return "missing";
+
+  switch (field) {
+    case "year":
+      return isNumeric(value) ? null : "notNumeric";
+    case "politicalRights":
+    case "civilLiberties":
+    case "politicalRightsScore":
+    case "civilLibertiesScore":
+    case "aggregateScore": {
+      if (!isNumeric(value)) return "notNumeric";
+      const score = toNumber(value);
+      return score < FIELD_RANGES[field].min || score > FIELD_RANGES[field].max ? "outOfRange" : null;
+    }
+    case "status":
+      return normalizeStatus(value) ? null : "unknownStatus";
+    default:
+      return null;
+  }
+};
+
+// Only mapped columns are checked: unmapped fields are a deliberate choice made in the mapping step
+export const validateRow = (row: SheetRow, mapping: ColumnMapping): ValidationIssue[] =>
+  (Object.keys(mapping) as MappedField[]).flatMap((field) => {
+    const header = mapping[field];
+    if (header === null) return [];
+    const kind = checkField(field, row[header]);
+    return kind ? [{ field, header, kind, value: row[header] }] : [];
+  });
+
+// Each sheet is checked against its own mapping, since merged files may use different headers
+export const validateSheets = (sheets: SheetRow[][], mappings: ColumnMapping[]): RowValidation[] =>
+  sheets.flatMap((rows, sheet) =>
+    rows
+      .map((row, index) => ({ sheet, index, row, issues: validateRow(row, mappings[sheet]) }))
+      .filter((result) => result.issues.length > 0)
+  );
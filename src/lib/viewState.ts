@@ -0,0 +1,119 @@
+import { ColumnFilter, ColumnFilters, isFilterActive } from "./filters";
+import { RegionTaxonomy, TAXONOMY_LABELS } from "./regions";
+import { DEFAULT_TABLE_SORT, TableSort } from "./table";
+
+export type DashboardView = "table" | "charts";
+
+// What a link reproduces: the filters, the view and the position in the table
+export interface ViewState {
+  search: string;
+  region: string;
+  // Region names depend on the classification, so a region filter carries it; otherwise the saved one applies
+  taxonomy?: RegionTaxonomy;
+  columns: ColumnFilters;
+  view: DashboardView;
+  sort: TableSort;
+  page: number;
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  search: "",
+  region: "all",
+  columns: {},
+  view: "table",
+  sort: DEFAULT_TABLE_SORT,
+  page: 1,
+};
+
+// Query parameters; defaults are left out so that links stay short
+const SEARCH = "q";
+const REGION = "region";
+const TAXONOMY = "classification";
+const VIEW = "view";
+const TABLE_VIEW = "table";
+const SORT = "sort";
+const DIRECTION = "dir";
+const PAGE = "page";
+// "f.status=category:Libre", "f.totalScore=range:2..10": the filter kind travels with its value
+const FILTER_PREFIX = "f.";
+const RANGE_SEPARATOR = "..";
+
+const encodeFilter = (filter: ColumnFilter): string => {
+  switch (filter.kind) {
+    case "category":
+      return `category:${filter.value}`;
+    case "range":
+      return `range:${filter.min ?? ""}${RANGE_SEPARATOR}${filter.max ?? ""}`;
+    case "period":
+      return `period:${filter.from ?? ""}${RANGE_SEPARATOR}${filter.to ?? ""}`;
+    case "text":
+      return `text:${filter.query}`;
+  }
+};
+
+const decodeFilter = (encoded: string): ColumnFilter | undefined => {
+  const separator = encoded.indexOf(":");
+  if (separator < 0) return undefined;
+  const kind = encoded.slice(0, separator);
+  const value = encoded.slice(separator + 1);
+  const [from = "", to = ""] = value.split(RANGE_SEPARATOR);
+  const bound = (text: string) => (text === "" || Number.isNaN(Number(text)) ? undefined : Number(text));
+
+  switch (kind) {
+    case "category":
+      return { kind, value };
+    case "range":
+      return { kind, min: bound(from), max: bound(to) };
+    case "period":
+      return { kind, from: from || undefined, to: to || undefined };
+    case "text":
+      return { kind, query: value };
+    default:
+      return undefined;
+  }
+};
+
+export const viewStateParams = (state: ViewState): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (state.search) params.set(SEARCH, state.search);
+  if (state.region !== "all") {
+    params.set(REGION, state.region);
+    if (state.taxonomy) params.set(TAXONOMY, state.taxonomy);
+  }
+  Object.entries(state.columns)
+    .filter(([, filter]) => isFilterActive(filter))
+    .forEach(([field, filter]) => params.set(`${FILTER_PREFIX}${field}`, encodeFilter(filter)));
+  if (state.view !== "table") params.set(VIEW, state.view);
+  if (state.sort.view !== "normalized") params.set(TABLE_VIEW, state.sort.view);
+  if (state.sort.column) {
+    params.set(SORT, state.sort.column);
+    if (state.sort.direction !== "asc") params.set(DIRECTION, state.sort.direction);
+  }
+  if (state.page > 1) params.set(PAGE, String(state.page));
+  return params;
+};
+
+// Unknown or malformed values fall back to the defaults rather than failing
+export const parseViewState = (params: URLSearchParams): ViewState => {
+  const taxonomy = params.get(TAXONOMY);
+  const page = Number(params.get(PAGE));
+  const columns: ColumnFilters = {};
+  params.forEach((value, key) => {
+    const filter = key.startsWith(FILTER_PREFIX) ? decodeFilter(value) : undefined;
+    if (filter) columns[key.slice(FILTER_PREFIX.length)] = filter;
+  });
+
+  return {
+    search: params.get(SEARCH) ?? "",
+    region: params.get(REGION) ?? "all",
+    taxonomy: taxonomy && taxonomy in TAXONOMY_LABELS ? (taxonomy as RegionTaxonomy) : undefined,
+    columns,
+    view: params.get(VIEW) === "charts" ? "charts" : "table",
+    sort: {
+      view: params.get(TABLE_VIEW) === "source" ? "source" : "normalized",
+      column: params.get(SORT),
+      direction: params.get(DIRECTION) === "desc" ? "desc" : "asc",
+    },
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+};
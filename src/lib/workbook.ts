@@ -0,0 +1,223 @@
+import * as XLSX from "xlsx";
+import { FREEDOM_HOUSE_HEADERS, detectFreedomHouseLayout, unpivotFreedomHouse } from "./freedomHouse";
+
+export type SheetRow = Record<string, unknown>;
+
+export type CellMatrix = unknown[][];
+
+export interface SheetSummary {
+  name: string;
+  fileName?: string;
+  headers: string[];
+  rows: SheetRow[];
+  // Position of each row in the source file (1-based, as shown by spreadsheet software)
+  rowNumbers: number[];
+  description?: string;
+  // Cells the rows were read from, kept so that the data region can be adjusted before import
+  matrix?: CellMatrix;
+  firstRow?: number;
+  region?: DataRegion;
+}
+
+export interface SourceMatrix {
+  name: string;
+  matrix: CellMatrix;
+  // Source row number of the first matrix row
+  firstRow?: number;
+  description?: string;
+}
+
+// Matrix indices (0-based, inclusive) of the header rows and of the last data row
+export interface DataRegion {
+  headerRow: number;
+  headerRowCount: number;
+  lastRow: number;
+}
+
+// Called while rows are converted, with counts across every sheet of the file
+export type RowProgressCallback = (converted: number, total: number) => void;
+
+export const PREVIEW_ROW_COUNT = 5;
+
+const PROGRESS_STEP = 1000;
+
+// Title banners and notes are only looked for above this row
+const MAX_HEADER_SCAN = 30;
+
+// Column headers in the order they first appear across the rows
+export const collectHeaders = (rows: SheetRow[]): string[] => {
+  const headers = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => headers.add(key)));
+  return [...headers];
+};
+
+// Blank header cells get a positional name and repeated headers a numeric suffix
+export const uniqueHeaders = (headerRow: unknown[]): string[] => {
+  const seen = new Map<string, number>();
+  return Array.from(headerRow, (cell, index) => {
+    const header = formatCell(cell).trim() || `Colonne ${index + 1}`;
+    const occurrences = seen.get(header) ?? 0;
+    seen.set(header, occurrences + 1);
+    return occurrences === 0 ? header : `${header}_${occurrences}`;
+  });
+};
+
+const isBlankCell = (cell: unknown): boolean =>
+  cell === undefined || cell === null || (typeof cell === "string" && cell.trim() === "");
+
+const filledCount = (cells: unknown[] | undefined): number =>
+  cells ? cells.filter((cell) => !isBlankCell(cell)).length : 0;
+
+const isTextCell = (cell: unknown): boolean =>
+  typeof cell === "string" && cell.trim() !== "" && Number.isNaN(Number(cell));
+
+const textRatio = (cells: unknown[] | undefined): number => {
+  const filled = (cells ?? []).filter((cell) => !isBlankCell(cell));
+  return filled.length > 0 ? filled.filter(isTextCell).length / filled.length : 0;
+};
+
+// A row of group titles spans, through merged cells, columns whose own names sit in the row below
+const isParentHeaderRow = (parent: unknown[] | undefined, child: unknown[] | undefined): boolean => {
+  if (!parent || !child || filledCount(parent) < 2 || textRatio(parent) < 1 || textRatio(child) < 1) return false;
+  return child.some((cell, column) => !isBlankCell(cell) && isBlankCell(parent[column]));
+};
+
+export const fullRegion = (matrix: CellMatrix): DataRegion => ({
+  headerRow: 0,
+  headerRowCount: 1,
+  lastRow: Math.max(matrix.length - 1, 0),
+});
+
+// Skips title banners above the header (rows much narrower than the table or not made of labels),
+// merges two-level headers and leaves out footnotes, i.e. trailing rows with a single filled cell
+export const detectDataRegion = (matrix: CellMatrix): DataRegion => {
+  const counts = matrix.map(filledCount);
+  const width = counts.slice(0, MAX_HEADER_SCAN * 2).reduce((max, count) => Math.max(max, count), 0);
+  if (width < 2) return fullRegion(matrix);
+
+  const threshold = Math.max(2, Math.ceil(width / 2));
+  const scanned = Math.min(matrix.length, MAX_HEADER_SCAN);
+  const wideRows = Array.from({ length: scanned }, (_, row) => row).filter((row) => counts[row] >= threshold);
+  // Headers made of years are numbers too, hence the fallback on the first wide row
+  let headerRow = wideRows.find((row) => textRatio(matrix[row]) >= 0.5) ?? wideRows[0] ?? 0;
+
+  let headerRowCount = 1;
+  if (headerRow > 0 && counts[headerRow - 1] < counts[headerRow] && isParentHeaderRow(matrix[headerRow - 1], matrix[headerRow])) {
+    headerRow--;
+    headerRowCount = 2;
+  } else if (isParentHeaderRow(matrix[headerRow], matrix[headerRow + 1])) {
+    headerRowCount = 2;
+  }
+
+  let lastRow = matrix.length - 1;
+  while (lastRow >= headerRow + headerRowCount && counts[lastRow] < 2) lastRow--;
+
+  return { headerRow, headerRowCount, lastRow: Math.max(lastRow, headerRow + headerRowCount - 1) };
+};
+
+// Group titles are carried over the columns they span and prefixed to each column name
+const headerCells = (matrix: CellMatrix, region: DataRegion): unknown[] => {
+  const names = matrix[region.headerRow] ?? [];
+  if (region.headerRowCount < 2) return names;
+
+  const children = matrix[region.headerRow + 1] ?? [];
+  let group = "";
+  return Array.from({ length: Math.max(names.length, children.length) }, (_, column) => {
+    const parent = formatCell(names[column]).trim();
+    const child = formatCell(children[column]).trim();
+    if (parent) group = parent;
+    else if (!child) group = "";
+    const label = parent || group;
+    return label && child ? `${label} ${child}` : label || child;
+  });
+};
+
+// Rows of the region below its header become records, blank ones are skipped
+const matrixToRows = (matrix: CellMatrix, firstRow: number, region: DataRegion, onRow?: () => void) => {
+  // Cells beyond the header row still get a positional column name
+  const width = matrix.reduce<number>((max, cells) => Math.max(max, cells?.length ?? 0), 0);
+  const names = headerCells(matrix, region);
+  const headers = uniqueHeaders(Array.from({ length: Math.max(width, names.length) }, (_, column) => names[column]));
+  const firstDataRow = region.headerRow + region.headerRowCount;
+  const rows: SheetRow[] = [];
+  const rowNumbers: number[] = [];
+
+  matrix.forEach((cells, index) => {
+    if (index === 0) return;
+    onRow?.();
+    if (index < firstDataRow || index > region.lastRow || !cells || cells.every(isBlankCell)) return;
+
+    const row: SheetRow = {};
+    headers.forEach((header, column) => {
+      if (!isBlankCell(cells[column])) row[header] = cells[column];
+    });
+    rows.push(row);
+    rowNumbers.push(firstRow + index);
+  });
+
+  return { rows, rowNumbers };
+};
+
+export const applyRegion = (sheet: SheetSummary, region: DataRegion): SheetSummary => {
+  if (!sheet.matrix) return sheet;
+  const { rows, rowNumbers } = matrixToRows(sheet.matrix, sheet.firstRow ?? 1, region);
+  return { ...sheet, headers: collectHeaders(rows), rows, rowNumbers, region };
+};
+
+// True when detection left rows of the matrix out, so the range deserves a look before import
+export const isTrimmedRegion = (sheet: SheetSummary): boolean => {
+  if (!sheet.matrix || !sheet.region) return false;
+  const { headerRow, headerRowCount, lastRow } = sheet.region;
+  return headerRow > 0 || headerRowCount > 1 || sheet.matrix.slice(lastRow + 1).some((cells) => filledCount(cells) > 0);
+};
+
+export const summarizeMatrices = (matrices: SourceMatrix[], onProgress?: RowProgressCallback): SheetSummary[] => {
+  const total = matrices.reduce((sum, { matrix }) => sum + Math.max(matrix.length - 1, 0), 0);
+  let converted = 0;
+
+  const onRow = () => {
+    converted++;
+    if (converted % PROGRESS_STEP === 0 || converted === total) onProgress?.(converted, total);
+  };
+
+  return matrices.map(({ name, matrix, firstRow = 1, description }) => {
+    const layout = detectFreedomHouseLayout(matrix);
+    if (layout) {
+      const { rows, rowNumbers } = unpivotFreedomHouse(matrix, layout, firstRow, onRow);
+      return {
+        name,
+        headers: FREEDOM_HOUSE_HEADERS,
+        rows,
+        rowNumbers,
+        description: `Format Freedom House « All Data » : ${layout.groups.length} années converties en une ligne par pays et par année`,
+      };
+    }
+
+    const region = detectDataRegion(matrix);
+    const { rows, rowNumbers } = matrixToRows(matrix, firstRow, region, onRow);
+    return { name, headers: collectHeaders(rows), rows, rowNumbers, description, matrix, firstRow, region };
+  });
+};
+
+export const readWorkbook = (data: ArrayBuffer, onProgress?: RowProgressCallback): SheetSummary[] => {
+  const workbook = XLSX.read(new Uint8Array(data), { type: "array" });
+  const matrices = workbook.SheetNames.map((name) => {
+    const worksheet = workbook.Sheets[name];
+    // Blank rows are kept so that matrix positions map back to spreadsheet row numbers
+    return {
+      name,
+      matrix: XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, blankrows: true }),
+      firstRow: worksheet["!ref"] ? XLSX.utils.decode_range(worksheet["!ref"]).s.r + 1 : 1,
+    };
+  });
+  return summarizeMatrices(matrices, onProgress);
+};
+
+export const sheetLabel = (sheet: SheetSummary): string =>
+  sheet.fileName && sheet.fileName !== sheet.name ? `${sheet.fileName} › ${sheet.name}` : sheet.name;
+
+export const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toLocaleDateString("fr-FR");
+  return String(value);
+};
@@ -0,0 +1,77 @@
+import type { FreedomData } from "@/components/Dashboard";
+import { readSourceFile } from "@/lib/formats";
+import { ColumnMapping, SheetOrigin, applyMapping } from "@/lib/mapping";
+import { SheetRow, SheetSummary } from "@/lib/workbook";
+
+export type ImportPhase = "reading" | "parsing" | "converting";
+
+export interface TransformBatch {
+  rows: SheetRow[];
+  mapping: ColumnMapping;
+  origin: SheetOrigin;
+}
+
+export type ImportRequest =
+  | { type: "parse"; file: File }
+  | { type: "transform"; batches: TransformBatch[] };
+
+export type ImportResponse =
+  | { type: "progress"; phase: ImportPhase; loaded: number; total: number }
+  | { type: "parsed"; sheets: SheetSummary[] }
+  | { type: "transformed"; batches: FreedomData[][] }
+  | { type: "error"; message: string };
+
+const respond = (response: ImportResponse) => self.postMessage(response);
+
+// Streams the file so the UI can show the bytes actually read so far
+const readWithProgress = async (file: File): Promise<ArrayBuffer> => {
+  const buffer = new Uint8Array(file.size);
+  const reader = file.stream().getReader();
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer.set(value, loaded);
+    loaded += value.length;
+    respond({ type: "progress", phase: "reading", loaded, total: file.size });
+  }
+
+  return buffer.buffer;
+};
+
+const parseFile = async (file: File) => {
+  const data = await readWithProgress(file);
+  respond({ type: "progress", phase: "parsing", loaded: 0, total: 0 });
+
+  const sheets = readSourceFile(file.name, data, (loaded, total) =>
+    respond({ type: "progress", phase: "converting", loaded, total })
+  );
+  respond({ type: "parsed", sheets: sheets.map((sheet) => ({ ...sheet, fileName: file.name })) });
+};
+
+const transformBatches = (batches: TransformBatch[]) => {
+  const total = batches.reduce((sum, { rows }) => sum + rows.length, 0);
+  let offset = 0;
+
+  const transformed = batches.map(({ rows, mapping, origin }) => {
+    const data = applyMapping(rows, mapping, origin, (loaded) =>
+      respond({ type: "progress", phase: "converting", loaded: offset + loaded, total })
+    );
+    offset += rows.length;
+    return data;
+  });
+  respond({ type: "transformed", batches: transformed });
+};
+
+self.addEventListener("message", async (event: MessageEvent<ImportRequest>) => {
+  try {
+    if (event.data.type === "parse") {
+      await parseFile(event.data.file);
+    } else {
+      transformBatches(event.data.batches);
+    }
+  } catch (err) {
+    respond({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+});